@@ -11,8 +11,23 @@
  *   lsp-hover <file> <line> <char>    Get type information at position
  *   lsp-find <query> [file]            Search for symbols
  *   lsp-refs <file> <line> <char>     Find all references
+ *   lsp-def <file> <line> <char>      Go to definition
+ *   lsp-type-def <file> <line> <char> Go to type definition
+ *   lsp-impl <file> <line> <char>     Find implementations
+ *   lsp-calls <file> <line> <char>    Show callers or callees
+ *   lsp-types-tree <file> <line> <char>  Show supertypes and subtypes
+ *   lsp-context <file#Symbol>          Gather context to edit a symbol
+ *   lsp-rename <file> <line> <char> <newName>  Rename a symbol
+ *   lsp-fix <file>                     List and apply code actions
  *   lsp-symbols <file>                 List all symbols in file
- *   lsp-analyze <file>                 Batch analysis
+ *   lsp-analyze <file|glob...>         Batch analysis
+ *   lsp-unused [file|glob...]          Find exports nothing else uses
+ *   lsp-impact [--base <ref>]          Find code affected by changes
+ *   lsp-diagnostics <file|glob>        Report type errors
+ *   lsp-daemon <start|stop|status>     Manage persistent LSP daemon
+ *   api-snapshot [entry...]            Report the public API
+ *   api-diff <old> <new>               Compare API reports
+ *   mcp                                Start MCP server on stdio
  *   validate-skill <path>              Validate AgentSkills spec
  *   scaffold-rules [options]           Generate development rules
  *
@@ -23,11 +38,27 @@
  *   bunx @plaited/development-skills scaffold-rules
  */
 
+import { apiDiff } from '../src/api-diff.ts'
+import { apiSnapshot } from '../src/api-snapshot.ts'
+import { handleInterrupts } from '../src/interrupt-signal.ts'
 import { lspAnalyze } from '../src/lsp-analyze.ts'
+import { lspCalls } from '../src/lsp-calls.ts'
+import { lspContext } from '../src/lsp-context.ts'
+import { lspDaemon } from '../src/lsp-daemon.ts'
+import { lspDef } from '../src/lsp-definition.ts'
+import { lspDiagnostics } from '../src/lsp-diagnostics.ts'
 import { lspFind } from '../src/lsp-find.ts'
+import { lspFix } from '../src/lsp-fix.ts'
 import { lspHover } from '../src/lsp-hover.ts'
+import { lspImpact } from '../src/lsp-impact.ts'
+import { lspImpl } from '../src/lsp-implementation.ts'
 import { lspRefs } from '../src/lsp-references.ts'
+import { lspRename } from '../src/lsp-rename.ts'
 import { lspSymbols } from '../src/lsp-symbols.ts'
+import { lspTypeDef } from '../src/lsp-type-definition.ts'
+import { lspTypesTree } from '../src/lsp-types-tree.ts'
+import { lspUnused } from '../src/lsp-unused.ts'
+import { mcpServer } from '../src/mcp-server.ts'
 import { scaffoldRules } from '../src/scaffold-rules.ts'
 import { validateSkill } from '../src/validate-skill.ts'
 
@@ -51,27 +82,63 @@ Usage:
 Commands:
   lsp-hover <file> <line> <char>    Get type information at position
   lsp-find <query> [file]            Search for symbols
-  lsp-refs <file> <line> <char>     Find all references
+  lsp-refs <file> <line> <char>     Find all references (--context <n> for source lines)
+  lsp-def <file> <line> <char>      Go to definition
+  lsp-type-def <file> <line> <char> Go to type definition
+  lsp-impl <file> <line> <char>     Find implementations
+  lsp-calls <file> <line> <char>    Show callers (--outgoing for callees)
+  lsp-types-tree <file> <line> <char>  Show supertypes and subtypes
+  lsp-context <file#Symbol>          Source, docs, types and call sites (--budget 4000)
+  lsp-rename <file> <line> <char> <newName>  Rename a symbol (--apply to write)
+  lsp-fix <file>                     List and apply code actions (--kind, --apply)
   lsp-symbols <file>                 List all symbols in file
-  lsp-analyze <file>                 Batch analysis
+  lsp-analyze <file|glob...>         Batch analysis
+  lsp-unused [file|glob...]          Find exports nothing else uses
+  lsp-impact [--base <ref>]          Find code affected by uncommitted or branch changes
+  lsp-diagnostics <file|glob>        Report type errors
+  lsp-daemon <start|stop|status>     Manage persistent LSP daemon
+  api-snapshot [entry...]            Report the public API (--out api.md)
+  api-diff <old> <new>               Compare API reports, exit 1 on breaking changes
+  mcp                                Start MCP server on stdio
   validate-skill <path>              Validate AgentSkills spec
   scaffold-rules [options]           Generate development rules
 
 Examples:
   bunx @plaited/development-skills lsp-hover src/index.ts 10 5
+  bunx @plaited/development-skills lsp-hover src/app.ts#ConfigManager.load
   bunx @plaited/development-skills lsp-find parseConfig
   bunx @plaited/development-skills lsp-refs src/types.ts 15 8
+  bunx @plaited/development-skills lsp-impl src/types.ts 15 8
+  bunx @plaited/development-skills lsp-calls src/app.ts#parseConfig --depth 2
+  bunx @plaited/development-skills lsp-types-tree src/app.ts#ConfigManager
+  bunx @plaited/development-skills lsp-context src/app.ts#ConfigManager.load --budget 2000
+  bunx @plaited/development-skills lsp-rename src/app.ts#parseConfig parseSettings --apply
+  bunx @plaited/development-skills lsp-fix src/app.ts --kind source.organizeImports --apply
   bunx @plaited/development-skills lsp-symbols src/app.ts
   bunx @plaited/development-skills lsp-analyze src/app.ts
+  bunx @plaited/development-skills lsp-unused 'src/**/*.ts' --package-roots
+  bunx @plaited/development-skills lsp-impact --base main
+  bunx @plaited/development-skills lsp-diagnostics 'src/**/*.ts'
+  bunx @plaited/development-skills lsp-daemon start
+  bunx @plaited/development-skills api-snapshot --out etc/package.api.md
+  bunx @plaited/development-skills api-diff main.api.md etc/package.api.md
+  bunx @plaited/development-skills mcp
   bunx @plaited/development-skills validate-skill .claude/skills/my-skill
   bunx @plaited/development-skills scaffold-rules
 
 Options:
   -h, --help    Show this help
+  --format      Output of lsp-* commands: json (default), text, compact or markdown
+  --stdin       Query stdin instead of the file on disk (single-file lsp-* commands)
+  --content-file  Like --stdin, reading the contents from a file
+  --server      Language server preset or command: typescript-language-server (default), vtsls, tsgo, deno
 `)
   process.exit(0)
 }
 
+// Cancel in-flight LSP requests and exit on Ctrl-C
+handleInterrupts()
+
 // Route to appropriate command
 try {
   switch (command) {
@@ -85,12 +152,60 @@ try {
     case 'lsp-references':
       await lspRefs(args)
       break
+    case 'lsp-def':
+    case 'lsp-definition':
+      await lspDef(args)
+      break
+    case 'lsp-type-def':
+    case 'lsp-type-definition':
+      await lspTypeDef(args)
+      break
+    case 'lsp-impl':
+    case 'lsp-implementation':
+      await lspImpl(args)
+      break
+    case 'lsp-calls':
+      await lspCalls(args)
+      break
+    case 'lsp-types-tree':
+      await lspTypesTree(args)
+      break
+    case 'lsp-context':
+      await lspContext(args)
+      break
+    case 'lsp-rename':
+      await lspRename(args)
+      break
+    case 'lsp-fix':
+      await lspFix(args)
+      break
     case 'lsp-symbols':
       await lspSymbols(args)
       break
     case 'lsp-analyze':
       await lspAnalyze(args)
       break
+    case 'lsp-unused':
+      await lspUnused(args)
+      break
+    case 'lsp-impact':
+      await lspImpact(args)
+      break
+    case 'lsp-diagnostics':
+      await lspDiagnostics(args)
+      break
+    case 'lsp-daemon':
+      await lspDaemon(args)
+      break
+    case 'api-snapshot':
+      await apiSnapshot(args)
+      break
+    case 'api-diff':
+      await apiDiff(args)
+      break
+    case 'mcp':
+      await mcpServer(args)
+      break
     case 'validate-skill':
       await validateSkill(args)
       break
@@ -0,0 +1,57 @@
+#!/usr/bin/env bun
+/**
+ * Compare two API reports and flag breaking changes
+ *
+ * Usage: bun api-diff.ts <old> <new>
+ */
+
+import { parseArgs } from 'node:util'
+import { type ApiReport, diffApiReports, parseApiMarkdown } from './api-report.ts'
+import { resolveFilePath } from './resolve-file-path.ts'
+
+/**
+ * Read a JSON or `.api.md` report written by api-snapshot
+ */
+const readReport = async (path: string): Promise<ApiReport> => {
+  const file = Bun.file(resolveFilePath(path))
+  if (!(await file.exists())) {
+    console.error(`Error: File not found: ${path}`)
+    process.exit(1)
+  }
+  return path.endsWith('.md') ? parseApiMarkdown(await file.text()) : ((await file.json()) as ApiReport)
+}
+
+/**
+ * Print the changes between two API reports
+ *
+ * @remarks
+ * Exits with code 1 when any change is breaking, so it can gate CI.
+ *
+ * @param args - Command line arguments [old report, new report]
+ */
+export const apiDiff = async (args: string[]) => {
+  const { positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+  })
+
+  const [oldPath, newPath] = positionals
+  if (!oldPath || !newPath) {
+    console.error('Usage: api-diff <old> <new>')
+    console.error('  old: Report of the released API (.json or .api.md from api-snapshot)')
+    console.error('  new: Report of the changed API')
+    process.exit(1)
+  }
+
+  const changes = diffApiReports(await readReport(oldPath), await readReport(newPath))
+  const breaking = changes.some((change) => change.breaking)
+
+  console.log(JSON.stringify({ breaking, changes }, null, 2))
+
+  if (breaking) process.exit(1)
+}
+
+// Keep executable entry point for direct execution
+if (import.meta.main) {
+  await apiDiff(Bun.argv.slice(2))
+}
@@ -0,0 +1,283 @@
+/**
+ * Build, render and compare public API reports
+ *
+ * @remarks
+ * A report lists what each entry file exports, resolved with the TypeScript checker,
+ * with the hover signature of every export and of the public members of classes,
+ * interfaces and enums. Line numbers and documentation are left out so a report only
+ * changes when the API does. Reports are stored as JSON or as `.api.md`, which is
+ * easier to review and is parsed back for comparison.
+ *
+ * @internal
+ */
+
+import { join, relative } from 'node:path'
+import { normalizeDocumentSymbols } from './document-symbols.ts'
+import { getHoverText } from './hover-text.ts'
+import { getLanguageId } from './language-id.ts'
+import type { LspClient } from './lsp-client.ts'
+import type { DocumentSymbol } from './lsp-types.ts'
+import { createExportsProgram, getModuleExports } from './module-exports.ts'
+
+export type ApiMember = { name: string; signature: string }
+
+export type ApiSymbol = {
+  name: string
+  kind: string
+  typeOnly: boolean
+  signature: string
+  members?: ApiMember[]
+}
+
+/**
+ * Exports of each entry file, keyed by path relative to the package root
+ */
+export type ApiReport = { entries: Record<string, ApiSymbol[]> }
+
+export type ApiChangeType = 'added' | 'removed' | 'signature-changed'
+
+/**
+ * One difference between two reports
+ *
+ * @remarks
+ * `name` is the export name, or `Export.member` for members.
+ */
+export type ApiChange = {
+  entry: string
+  name: string
+  change: ApiChangeType
+  breaking: boolean
+  before?: string
+  after?: string
+}
+
+/** Export kinds whose members are part of the API */
+const KINDS_WITH_MEMBERS = new Set(['Class', 'Interface', 'Enum'])
+
+/**
+ * Extract the signature from hover contents, without documentation
+ *
+ * @remarks
+ * typescript-language-server puts the signature in the first code block of a
+ * markdown hover. Other content shapes fall back to their text.
+ */
+export const getHoverSignature = (hover: unknown): string => {
+  const text = getHoverText(hover)
+  const codeBlock = text.match(/```\w*\n([\s\S]*?)\n```/)
+  return (codeBlock?.[1] ?? text).trim()
+}
+
+/**
+ * Build the API report of entry files
+ *
+ * @param options - Running client, absolute paths of the entry files, and the package
+ *   root that entry paths are relative to
+ * @returns Report with entries and exports sorted by name
+ */
+export const createApiReport = async ({
+  client,
+  entryFiles,
+  cwd = process.cwd(),
+}: {
+  client: LspClient
+  entryFiles: string[]
+  cwd?: string
+}): Promise<ApiReport> => {
+  const program = createExportsProgram(entryFiles)
+  const opened = new Map<string, DocumentSymbol[] | undefined>()
+
+  const open = async (path: string) => {
+    const uri = `file://${path}`
+    if (!opened.has(uri)) {
+      client.openDocument(uri, getLanguageId(path), 1, await Bun.file(path).text())
+      opened.set(uri, undefined)
+    }
+    return uri
+  }
+
+  const getSymbols = async (uri: string): Promise<DocumentSymbol[]> => {
+    let symbols = opened.get(uri)
+    if (!symbols) {
+      const result = await client.documentSymbols(uri)
+      symbols = normalizeDocumentSymbols(result, client.getDocumentText(uri))
+      opened.set(uri, symbols)
+    }
+    return symbols
+  }
+
+  const findSymbol = (symbols: DocumentSymbol[], line: number, character: number): DocumentSymbol | undefined => {
+    for (const symbol of symbols) {
+      const { start } = symbol.selectionRange
+      if (start.line === line && start.character === character) return symbol
+      const child = findSymbol(symbol.children ?? [], line, character)
+      if (child) return child
+    }
+  }
+
+  const getMembers = async (uri: string, text: string, line: number, character: number) => {
+    const symbol = findSymbol(await getSymbols(uri), line, character)
+    const lines = text.split('\n')
+    const members = new Map<string, string[]>()
+
+    for (const child of symbol?.children ?? []) {
+      const { start } = child.selectionRange
+      // Modifiers sit between the start of the member and its name
+      const modifiers = lines[start.line]?.slice(child.range.start.character, start.character) ?? ''
+      if (child.name.startsWith('#') || /\bprivate\b/.test(modifiers)) continue
+      const signature = getHoverSignature(await client.hover(uri, start.line, start.character))
+      members.set(child.name, [...(members.get(child.name) ?? []), signature])
+    }
+
+    return [...members]
+      .map(([name, signatures]) => ({ name, signature: signatures.join('\n') }))
+      .sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  const entries: Record<string, ApiSymbol[]> = {}
+  for (const entryFile of [...entryFiles].sort()) {
+    const symbols: ApiSymbol[] = []
+
+    for (const entry of getModuleExports({ program, file: entryFile, cwd })) {
+      if (entry.kind === 'Module') {
+        const signature = `export * as ${entry.name} from '${entry.file}'`
+        symbols.push({ name: entry.name, kind: entry.kind, typeOnly: entry.typeOnly, signature })
+        continue
+      }
+
+      const path = join(cwd, entry.file)
+      const uri = await open(path)
+      const signature = getHoverSignature(await client.hover(uri, entry.line, entry.character))
+      const symbol: ApiSymbol = { name: entry.name, kind: entry.kind, typeOnly: entry.typeOnly, signature }
+      if (KINDS_WITH_MEMBERS.has(entry.kind)) {
+        symbol.members = await getMembers(uri, await Bun.file(path).text(), entry.line, entry.character)
+      }
+      symbols.push(symbol)
+    }
+
+    entries[relative(cwd, entryFile)] = symbols.sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  for (const uri of opened.keys()) client.closeDocument(uri)
+
+  return { entries }
+}
+
+/**
+ * Render a report as markdown
+ *
+ * @remarks
+ * One section per entry file and one heading with a `ts` code block per export.
+ * Members follow their export as `####` headings. {@link parseApiMarkdown} reads it back.
+ */
+export const renderApiMarkdown = (report: ApiReport): string => {
+  const lines = ['# API Report', '']
+
+  for (const [entry, symbols] of Object.entries(report.entries)) {
+    lines.push(`## ${entry}`, '')
+    for (const symbol of symbols) {
+      lines.push(`### ${symbol.name}`, '', `${symbol.kind}${symbol.typeOnly ? ', type-only' : ''}`, '')
+      lines.push('```ts', symbol.signature, '```', '')
+      for (const member of symbol.members ?? []) {
+        lines.push(`#### ${symbol.name}.${member.name}`, '', '```ts', member.signature, '```', '')
+      }
+    }
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Parse markdown written by {@link renderApiMarkdown}
+ */
+export const parseApiMarkdown = (markdown: string): ApiReport => {
+  const entries: Record<string, ApiSymbol[]> = {}
+  let symbols: ApiSymbol[] | undefined
+  let symbol: ApiSymbol | undefined
+
+  const pattern = /^(##|###|####) (.+)\n\n(?:(\w+)(, type-only)?\n\n)?(?:```ts\n([\s\S]*?)\n```\n)?/gm
+  for (const [, level, title, kind, typeOnly, signature = ''] of markdown.matchAll(pattern)) {
+    if (level === '##') {
+      symbols = []
+      entries[title!] = symbols
+    } else if (level === '###' && symbols) {
+      symbol = { name: title!, kind: kind ?? 'Unknown', typeOnly: typeOnly !== undefined, signature }
+      symbols.push(symbol)
+    } else if (level === '####' && symbol) {
+      symbol.members ??= []
+      symbol.members.push({ name: title!.slice(symbol.name.length + 1), signature })
+    }
+  }
+
+  return { entries }
+}
+
+/**
+ * Compare two reports
+ *
+ * @remarks
+ * Removed exports and members and changed signatures are breaking. Added exports and
+ * class members are not, but a required member added to an interface breaks its
+ * implementations.
+ *
+ * @param before - Report of the released API
+ * @param after - Report of the changed API
+ * @returns Changes by entry, exports before members, each sorted by name
+ */
+export const diffApiReports = (before: ApiReport, after: ApiReport): ApiChange[] => {
+  const changes: ApiChange[] = []
+  const entries = [...new Set([...Object.keys(before.entries), ...Object.keys(after.entries)])].sort()
+
+  const compare = <T extends { name: string; signature: string }>(
+    entry: string,
+    old: T[],
+    current: T[],
+    { prefix = '', addedIsBreaking }: { prefix?: string; addedIsBreaking?: (item: T) => boolean } = {},
+  ) => {
+    const oldByName = new Map(old.map((item) => [item.name, item]))
+    const currentByName = new Map(current.map((item) => [item.name, item]))
+    const names = [...new Set([...oldByName.keys(), ...currentByName.keys()])].sort()
+
+    for (const name of names) {
+      const a = oldByName.get(name)
+      const b = currentByName.get(name)
+      if (!b) {
+        changes.push({ entry, name: `${prefix}${name}`, change: 'removed', breaking: true, before: a!.signature })
+      } else if (!a) {
+        changes.push({
+          entry,
+          name: `${prefix}${name}`,
+          change: 'added',
+          breaking: addedIsBreaking?.(b) ?? false,
+          after: b.signature,
+        })
+      } else if (a.signature !== b.signature) {
+        changes.push({
+          entry,
+          name: `${prefix}${name}`,
+          change: 'signature-changed',
+          breaking: true,
+          before: a.signature,
+          after: b.signature,
+        })
+      }
+    }
+  }
+
+  for (const entry of entries) {
+    const old = before.entries[entry] ?? []
+    const current = after.entries[entry] ?? []
+    compare(entry, old, current)
+
+    // Members of exports that exist in both reports
+    for (const symbol of current) {
+      const previous = old.find((candidate) => candidate.name === symbol.name)
+      if (!previous) continue
+      compare(entry, previous.members ?? [], symbol.members ?? [], {
+        prefix: `${symbol.name}.`,
+        addedIsBreaking: (member) => symbol.kind === 'Interface' && !member.signature.includes(`${member.name}?`),
+      })
+    }
+  }
+
+  return changes
+}
@@ -0,0 +1,93 @@
+#!/usr/bin/env bun
+/**
+ * Write a report of a package's public API
+ *
+ * Usage: bun api-snapshot.ts [entry|glob...] [--out <file>] [--format json|markdown]
+ */
+
+import { parseArgs } from 'node:util'
+import { createApiReport, renderApiMarkdown } from './api-report.ts'
+import { expandFilePatterns } from './expand-file-patterns.ts'
+import { getInterruptSignal, handleInterrupts } from './interrupt-signal.ts'
+import { createLspClient } from './lsp-daemon.ts'
+import { parseOutputFormat } from './output-format.ts'
+import { getPackageEntryFiles } from './unused-exports.ts'
+
+/**
+ * Report the exports of entry files with their signatures
+ *
+ * @param args - Command line arguments [entry files or globs...]
+ */
+export const apiSnapshot = async (args: string[]) => {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      out: { type: 'string', short: 'o' },
+      format: { type: 'string' },
+      server: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+    allowPositionals: true,
+  })
+
+  if (values.help) {
+    console.log('Usage: api-snapshot [entry|glob...] [--out <file>] [--format json|markdown]')
+    console.log('  entry: Entry files of the package (default: package.json main/module/types/exports/bin)')
+    console.log('  --out, -o: Write the report to a file instead of stdout')
+    console.log('  --format: json or markdown (default: markdown for .md output files, otherwise json)')
+    console.log('  --server: Language server preset or command (default: typescript-language-server)')
+    process.exit(0)
+  }
+
+  // Same names as the other commands' --format, which the report has no text or compact rendering for
+  const format = values.format ? parseOutputFormat(values.format) : values.out?.endsWith('.md') ? 'markdown' : 'json'
+  if (format !== 'json' && format !== 'markdown') {
+    console.error('Error: format must be json or markdown')
+    process.exit(1)
+  }
+
+  const cwd = process.cwd()
+  const entryFiles = positionals.length > 0 ? await expandFilePatterns(positionals) : await getPackageEntryFiles(cwd)
+  if (entryFiles.length === 0) {
+    console.error('Error: No entry files found')
+    process.exit(1)
+  }
+
+  for (const file of entryFiles) {
+    if (!(await Bun.file(file).exists())) {
+      console.error(`Error: File not found: ${file}`)
+      process.exit(1)
+    }
+  }
+
+  const client = await createLspClient({
+    rootUri: `file://${cwd}`,
+    server: values.server,
+    signal: getInterruptSignal(),
+  })
+
+  try {
+    await client.start()
+
+    const report = await createApiReport({ client, entryFiles, cwd })
+
+    await client.stop()
+
+    const output = format === 'markdown' ? renderApiMarkdown(report) : `${JSON.stringify(report, null, 2)}\n`
+    if (values.out) {
+      await Bun.write(values.out, output)
+    } else {
+      process.stdout.write(output)
+    }
+  } catch (error) {
+    console.error('Error:', error)
+    await client.stop()
+    process.exit(1)
+  }
+}
+
+// Keep executable entry point for direct execution
+if (import.meta.main) {
+  handleInterrupts()
+  await apiSnapshot(Bun.argv.slice(2))
+}
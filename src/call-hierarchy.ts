@@ -0,0 +1,107 @@
+/**
+ * Build caller and callee trees from LSP call hierarchy results
+ *
+ * @remarks
+ * `callHierarchy/incomingCalls` and `outgoingCalls` only return one level, so the
+ * tree is expanded by querying every node until the depth limit. A call that leads
+ * back to a function already on the current path is marked as a cycle and not expanded.
+ *
+ * @internal
+ */
+
+import { relative } from 'node:path'
+import type { CallHierarchyIncomingCall, CallHierarchyItem, CallHierarchyOutgoingCall, Range } from './lsp-types.ts'
+import { symbolKindNames } from './symbol-kinds.ts'
+import { uriToPath } from './workspace-edit.ts'
+
+/**
+ * One level of calls, normalized from `CallHierarchyIncomingCall` (`from`) and
+ * `CallHierarchyOutgoingCall` (`to`)
+ */
+export type CallHierarchyCall = { item: CallHierarchyItem; fromRanges: Range[] }
+
+export type CallDirection = 'incoming' | 'outgoing'
+
+/**
+ * Node of a call tree
+ *
+ * @remarks
+ * `range` is the symbol name. `callSites` are the call expressions: in the caller's
+ * file, which is this node for `callers` and the parent node for `callees`.
+ */
+export type CallTreeNode = {
+  name: string
+  kind: string
+  detail?: string
+  file: string
+  range: Range
+  callSites?: Range[]
+  cycle?: true
+  callers?: CallTreeNode[]
+  callees?: CallTreeNode[]
+}
+
+const itemKey = (item: CallHierarchyItem): string =>
+  `${item.uri}:${item.selectionRange.start.line}:${item.selectionRange.start.character}`
+
+/**
+ * Normalize an `incomingCalls` or `outgoingCalls` result
+ */
+export const normalizeCalls = (result: unknown, direction: CallDirection): CallHierarchyCall[] => {
+  if (!Array.isArray(result)) return []
+  return result.map((call: CallHierarchyIncomingCall & CallHierarchyOutgoingCall) => ({
+    item: direction === 'incoming' ? call.from : call.to,
+    fromRanges: call.fromRanges,
+  }))
+}
+
+/**
+ * Expand a call hierarchy item into a tree of callers or callees
+ *
+ * @param options - Root item, direction, levels to expand below the root, a function
+ *   returning one level of calls, and the directory file paths are relative to
+ * @returns Tree rooted at `item`
+ */
+export const buildCallTree = async ({
+  item,
+  direction,
+  depth,
+  getCalls,
+  cwd = process.cwd(),
+}: {
+  item: CallHierarchyItem
+  direction: CallDirection
+  depth: number
+  getCalls: (item: CallHierarchyItem) => Promise<CallHierarchyCall[]>
+  cwd?: string
+}): Promise<CallTreeNode> => {
+  const childrenKey = direction === 'incoming' ? 'callers' : 'callees'
+
+  const toNode = (node: CallHierarchyItem): CallTreeNode => ({
+    name: node.name,
+    kind: symbolKindNames[node.kind] || `Unknown(${node.kind})`,
+    ...(node.detail ? { detail: node.detail } : {}),
+    file: relative(cwd, uriToPath(node.uri)),
+    range: node.selectionRange,
+  })
+
+  const expand = async (node: CallTreeNode, current: CallHierarchyItem, ancestors: Set<string>, level: number) => {
+    if (level >= depth) return
+    const children: CallTreeNode[] = []
+    for (const call of await getCalls(current)) {
+      const child: CallTreeNode = { ...toNode(call.item), callSites: call.fromRanges }
+      const key = itemKey(call.item)
+      if (ancestors.has(key)) {
+        child.cycle = true
+      } else {
+        await expand(child, call.item, new Set([...ancestors, key]), level + 1)
+      }
+      children.push(child)
+    }
+    node[childrenKey] = children
+  }
+
+  const root = toNode(item)
+  await expand(root, item, new Set([itemKey(item)]), 0)
+  return root
+}
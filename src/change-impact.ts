@@ -0,0 +1,225 @@
+/**
+ * Find the code affected by a change
+ *
+ * @remarks
+ * Changed lines from `git diff` are mapped to the innermost enclosing symbols, where
+ * only classes, interfaces, enums and namespaces are descended into, so a change in
+ * a method is the method and a change in a function body is the function. Each
+ * changed symbol's references outside the changed lines are then reported with the
+ * symbol that contains them.
+ *
+ * @internal
+ */
+
+import { relative } from 'node:path'
+import ts from 'typescript'
+import { normalizeDocumentSymbols } from './document-symbols.ts'
+import { getLanguageId } from './language-id.ts'
+import type { LspClient } from './lsp-client.ts'
+import { normalizeLocations } from './lsp-locations.ts'
+import type { DocumentSymbol } from './lsp-types.ts'
+import { symbolKindNames } from './symbol-kinds.ts'
+import { isImportOrExportPosition } from './unused-exports.ts'
+import { uriToPath } from './workspace-edit.ts'
+
+/**
+ * Lines changed in one file, 0-indexed and inclusive, on the new side of the diff
+ */
+export type FileChanges = { path: string; lines: { start: number; end: number }[] }
+
+export type ChangedSymbol = { file: string; symbol: string; kind: string; line: number }
+
+/**
+ * A symbol outside the diff that uses changed symbols
+ *
+ * @remarks
+ * `symbol` is `null` for uses at the top level of a module.
+ */
+export type AffectedSymbol = { file: string; symbol: string | null; uses: string[] }
+
+/** `SymbolKind` values whose children are reported separately: Module, Namespace, Class, Enum, Interface */
+const CONTAINER_KINDS = new Set([2, 3, 5, 10, 11])
+
+/** Characters git writes as a backslash and a letter in quoted paths */
+const GIT_PATH_ESCAPES: Record<string, number> = { a: 7, b: 8, t: 9, n: 10, v: 11, f: 12, r: 13 }
+
+/**
+ * Read a path from a `+++` line, which git quotes C-style when it has unusual characters
+ */
+const parseGitDiffPath = (value: string): string => {
+  // Names with spaces end in a tab, so the diff stays unambiguous
+  const path = value.replace(/\t$/, '')
+  if (!path.startsWith('"') || !path.endsWith('"')) return path
+
+  // Octal escapes are UTF-8 bytes, so unescape bytes and decode them together
+  const encoded = new TextEncoder().encode(path.slice(1, -1))
+  const bytes: number[] = []
+  for (let i = 0; i < encoded.length; i++) {
+    if (encoded[i] !== 0x5c) {
+      bytes.push(encoded[i]!)
+      continue
+    }
+    const sequence = String.fromCharCode(...encoded.subarray(i + 1, i + 4))
+    if (/^[0-7]{3}$/.test(sequence)) {
+      bytes.push(parseInt(sequence, 8))
+      i += 3
+    } else {
+      bytes.push(GIT_PATH_ESCAPES[sequence[0]!] ?? encoded[i + 1]!)
+      i++
+    }
+  }
+  return new TextDecoder().decode(new Uint8Array(bytes))
+}
+
+/**
+ * Parse `git diff --unified=0` output into changed line ranges per file
+ *
+ * @remarks
+ * Deleted files are skipped. A hunk that only deletes lines marks the line the
+ * deletion follows, so the enclosing symbol still counts as changed. Quoted paths
+ * are unescaped.
+ *
+ * @param diff - Output of `git diff --unified=0`
+ * @returns Changed ranges with paths relative to the repository root
+ */
+export const parseGitDiff = (diff: string): FileChanges[] => {
+  const files: FileChanges[] = []
+  let current: FileChanges | undefined
+
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('+++ ')) {
+      const path = parseGitDiffPath(line.slice(4))
+      current = path === '/dev/null' ? undefined : { path: path.replace(/^b\//, ''), lines: [] }
+      if (current) files.push(current)
+      continue
+    }
+
+    const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/)
+    if (hunk && current) {
+      const start = Number(hunk[1])
+      const count = hunk[2] === undefined ? 1 : Number(hunk[2])
+      const first = Math.max(start - 1, 0)
+      current.lines.push({ start: first, end: count === 0 ? first : first + count - 1 })
+    }
+  }
+
+  return files.filter((file) => file.lines.length > 0)
+}
+
+/**
+ * Find the innermost symbols overlapping line ranges
+ *
+ * @param symbols - Symbols from {@link normalizeDocumentSymbols}
+ * @param lines - 0-indexed inclusive line ranges
+ * @returns Matching symbols with their dotted paths, in document order
+ */
+export const findSymbolsInLines = (
+  symbols: DocumentSymbol[],
+  lines: { start: number; end: number }[],
+): { path: string; symbol: DocumentSymbol }[] => {
+  const overlaps = (symbol: DocumentSymbol) =>
+    lines.some(({ start, end }) => symbol.range.start.line <= end && start <= symbol.range.end.line)
+
+  const visit = (list: DocumentSymbol[], prefix: string): { path: string; symbol: DocumentSymbol }[] =>
+    list.filter(overlaps).flatMap((symbol) => {
+      const path = prefix ? `${prefix}.${symbol.name}` : symbol.name
+      const children = CONTAINER_KINDS.has(symbol.kind) ? visit(symbol.children ?? [], path) : []
+      return children.length > 0 ? children : [{ path, symbol }]
+    })
+
+  return visit(symbols, '')
+}
+
+/**
+ * Find the changed symbols and the symbols outside the diff that use them
+ *
+ * @param options - Running client, changed files with absolute paths, the directory
+ *   file paths are relative to, and how long to wait for the project to load
+ * @returns Changed symbols, affected symbols grouped by file, the affected files, and
+ *   whether the project finished loading (references found before that may be missing)
+ */
+export const analyzeChangeImpact = async ({
+  client,
+  changes,
+  cwd = process.cwd(),
+  timeout = 30000,
+}: {
+  client: LspClient
+  changes: FileChanges[]
+  cwd?: string
+  timeout?: number
+}): Promise<{ complete: boolean; changed: ChangedSymbol[]; affected: AffectedSymbol[]; files: string[] }> => {
+  const changedLines = new Map(changes.map((change) => [change.path, change.lines]))
+  const symbolsByUri = new Map<string, DocumentSymbol[]>()
+  const sourceFiles = new Map<string, ts.SourceFile>()
+  const opened = new Set<string>()
+
+  const open = async (path: string) => {
+    const uri = `file://${path}`
+    if (!opened.has(uri)) {
+      const text = await Bun.file(path).text()
+      client.openDocument(uri, getLanguageId(path), 1, text)
+      sourceFiles.set(path, ts.createSourceFile(path, text, ts.ScriptTarget.Latest))
+      opened.add(uri)
+    }
+    return uri
+  }
+
+  const getSymbols = async (uri: string) => {
+    let symbols = symbolsByUri.get(uri)
+    if (!symbols) {
+      symbols = normalizeDocumentSymbols(await client.documentSymbols(uri), client.getDocumentText(uri))
+      symbolsByUri.set(uri, symbols)
+    }
+    return symbols
+  }
+
+  let complete: boolean | undefined
+  const changed: ChangedSymbol[] = []
+  const affected = new Map<string, AffectedSymbol>()
+
+  for (const { path, lines } of changes) {
+    const uri = await open(path)
+    complete ??= await client.waitForReady(uri, { timeout })
+    const file = relative(cwd, path)
+
+    for (const { path: symbolPath, symbol } of findSymbolsInLines(await getSymbols(uri), lines)) {
+      const { line, character } = symbol.selectionRange.start
+      changed.push({ file, symbol: symbolPath, kind: symbolKindNames[symbol.kind] || `Unknown(${symbol.kind})`, line })
+
+      for (const reference of normalizeLocations(await client.references(uri, line, character, false))) {
+        const referencePath = uriToPath(reference.uri)
+        const referenceLine = reference.range.start.line
+        const inDiff = changedLines
+          .get(referencePath)
+          ?.some(({ start, end }) => start <= referenceLine && referenceLine <= end)
+        if (inDiff || referencePath.includes('/node_modules/')) continue
+
+        const referenceUri = await open(referencePath)
+        if (isImportOrExportPosition(sourceFiles.get(referencePath)!, reference.range.start)) continue
+
+        const [user] = findSymbolsInLines(await getSymbols(referenceUri), [
+          { start: referenceLine, end: referenceLine },
+        ])
+        const referenceFile = relative(cwd, referencePath)
+        const key = `${referenceFile}#${user?.path ?? ''}`
+        const entry = affected.get(key) ?? { file: referenceFile, symbol: user?.path ?? null, uses: [] }
+        const use = `${file}#${symbolPath}`
+        if (!entry.uses.includes(use)) entry.uses.push(use)
+        affected.set(key, entry)
+      }
+    }
+  }
+
+  for (const uri of opened) client.closeDocument(uri)
+
+  const sorted = [...affected.values()].sort(
+    (a, b) => a.file.localeCompare(b.file) || (a.symbol ?? '').localeCompare(b.symbol ?? ''),
+  )
+  return {
+    complete: complete ?? true,
+    changed,
+    affected: sorted,
+    files: [...new Set(sorted.map((entry) => entry.file))],
+  }
+}
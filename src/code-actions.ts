@@ -0,0 +1,104 @@
+/**
+ * Collect and select LSP code actions
+ *
+ * @remarks
+ * `textDocument/codeAction` returns quick fixes for the diagnostics in a range,
+ * refactors, and source actions such as organize imports. Kinds are hierarchical
+ * (`source.organizeImports.ts` is a `source.organizeImports` and a `source`).
+ *
+ * @internal
+ */
+
+import type { LspClient } from './lsp-client.ts'
+import type { CodeAction, Command, Diagnostic, Range } from './lsp-types.ts'
+
+/**
+ * Check whether a code action kind falls under a kind filter
+ *
+ * @param kind - Kind of the action, e.g. `source.organizeImports.ts`
+ * @param filter - Kind or parent kind, e.g. `source.organizeImports` or `source`
+ */
+export const matchesCodeActionKind = (kind: string | undefined, filter: string): boolean =>
+  kind !== undefined && (kind === filter || kind.startsWith(`${filter}.`))
+
+/**
+ * Check whether two ranges share at least one position
+ */
+export const rangesOverlap = (a: Range, b: Range): boolean => {
+  const before = (x: Range['start'], y: Range['start']) =>
+    x.line < y.line || (x.line === y.line && x.character < y.character)
+  return !before(a.end, b.start) && !before(b.end, a.start)
+}
+
+/**
+ * Normalize a `(Command | CodeAction)[]` result to code actions
+ *
+ * @remarks
+ * A bare `Command` has a string `command`; it becomes an action without kind or edit.
+ */
+export const normalizeCodeActions = (result: unknown): CodeAction[] => {
+  if (!Array.isArray(result)) return []
+  return result.map((item: CodeAction | Command) =>
+    typeof item.command === 'string' ? { title: item.title, command: item as Command } : (item as CodeAction),
+  )
+}
+
+/**
+ * Get the code actions for a range or for a whole document
+ *
+ * @remarks
+ * Without a range, quick fixes are requested for every diagnostic and source actions
+ * for the whole document. With a range, one request covers the range and the
+ * diagnostics overlapping it. Disabled actions are dropped, and actions offered for
+ * several diagnostics are listed once.
+ *
+ * @param options - Running client, open document, its diagnostics, and optional range and kind filter
+ * @returns Available actions in server order
+ */
+export const collectCodeActions = async ({
+  client,
+  uri,
+  text,
+  diagnostics,
+  range,
+  kind,
+}: {
+  client: LspClient
+  uri: string
+  text: string
+  diagnostics: Diagnostic[]
+  range?: Range
+  kind?: string
+}): Promise<CodeAction[]> => {
+  const only = kind ? [kind] : undefined
+  const results: unknown[] = []
+
+  if (range) {
+    const overlapping = diagnostics.filter((diagnostic) => rangesOverlap(diagnostic.range, range))
+    results.push(await client.codeAction(uri, range, { diagnostics: overlapping, only }))
+  } else {
+    for (const diagnostic of diagnostics) {
+      results.push(await client.codeAction(uri, diagnostic.range, { diagnostics: [diagnostic], only }))
+    }
+
+    if (!kind || matchesCodeActionKind(kind, 'source')) {
+      const lines = text.split('\n')
+      const documentRange = {
+        start: { line: 0, character: 0 },
+        end: { line: lines.length - 1, character: lines[lines.length - 1]!.length },
+      }
+      results.push(await client.codeAction(uri, documentRange, { diagnostics: [], only: only ?? ['source'] }))
+    }
+  }
+
+  const seen = new Set<string>()
+  return results
+    .flatMap(normalizeCodeActions)
+    .filter((action) => !action.disabled && (!kind || matchesCodeActionKind(action.kind, kind)))
+    .filter((action) => {
+      const key = `${action.kind ?? ''}\n${action.title}`
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+}
@@ -0,0 +1,52 @@
+/**
+ * Read the text a command opens a document with
+ *
+ * @remarks
+ * Commands normally open the file on disk. With `--stdin` or `--content-file` they
+ * open proposed contents under the file's path instead, so queries answer for code
+ * that has not been written yet. The file itself does not have to exist.
+ *
+ * @internal
+ */
+
+import { resolveFilePath } from './resolve-file-path.ts'
+
+/**
+ * `parseArgs` options for proposed contents
+ */
+export const documentContentOptions = {
+  stdin: { type: 'boolean', default: false },
+  'content-file': { type: 'string' },
+} as const
+
+/**
+ * Check whether the options name proposed contents
+ *
+ * @remarks
+ * Commands then spawn their own server rather than share the daemon's.
+ */
+export const hasProposedContent = ({
+  stdin,
+  'content-file': contentFile,
+}: {
+  stdin?: boolean
+  'content-file'?: string
+}): boolean => stdin === true || contentFile !== undefined
+
+/**
+ * Read the proposed contents of a document, or the document itself
+ *
+ * @param path - Absolute path of the document
+ * @param options - Parsed `--stdin` and `--content-file` values; `--stdin` wins
+ * @returns The text, or `undefined` if the file it comes from does not exist, and that file
+ */
+export const readDocumentText = async (
+  path: string,
+  { stdin, 'content-file': contentFile }: { stdin?: boolean; 'content-file'?: string },
+): Promise<{ text: string | undefined; source: string }> => {
+  if (stdin) return { text: await Bun.stdin.text(), source: 'stdin' }
+
+  const source = contentFile ? resolveFilePath(contentFile) : path
+  const file = Bun.file(source)
+  return { text: (await file.exists()) ? await file.text() : undefined, source }
+}
@@ -0,0 +1,108 @@
+/**
+ * Normalization of `textDocument/documentSymbol` results
+ *
+ * @remarks
+ * Servers answer with hierarchical `DocumentSymbol[]` when the client advertises
+ * `hierarchicalDocumentSymbolSupport`, and some still answer with flat
+ * `SymbolInformation[]`. Callers work with the hierarchical shape only.
+ *
+ * @internal
+ */
+
+import type { DocumentSymbol, Range, SymbolInformation } from './lsp-types.ts'
+
+const isDocumentSymbol = (value: unknown): value is DocumentSymbol =>
+  typeof value === 'object' && value !== null && 'name' in value && 'range' in value && 'selectionRange' in value
+
+const isSymbolInformation = (value: unknown): value is SymbolInformation =>
+  typeof value === 'object' && value !== null && 'name' in value && 'location' in value
+
+const contains = (outer: Range, inner: Range): boolean =>
+  (outer.start.line < inner.start.line ||
+    (outer.start.line === inner.start.line && outer.start.character <= inner.start.character)) &&
+  (inner.end.line < outer.end.line || (inner.end.line === outer.end.line && inner.end.character <= outer.end.character))
+
+const isIdentifierCharacter = (character: string | undefined): boolean =>
+  character !== undefined && /[\p{ID_Continue}$]/u.test(character)
+
+/**
+ * Find the first occurrence of a symbol's name within its range
+ *
+ * @returns Range of the name, or `undefined` when the text does not contain it as a whole word
+ */
+const findNameRange = (lines: string[], name: string, range: Range): Range | undefined => {
+  for (let line = range.start.line; line <= range.end.line && line < lines.length; line++) {
+    const text = lines[line]!
+    const end = line === range.end.line ? range.end.character : text.length
+    let character = text.indexOf(name, line === range.start.line ? range.start.character : 0)
+    while (character !== -1 && character + name.length <= end) {
+      if (!isIdentifierCharacter(text[character - 1]) && !isIdentifierCharacter(text[character + name.length])) {
+        return { start: { line, character }, end: { line, character: character + name.length } }
+      }
+      character = text.indexOf(name, character + 1)
+    }
+  }
+  return undefined
+}
+
+/**
+ * Nest flat symbols by range containment
+ *
+ * @remarks
+ * `SymbolInformation` has no separate name range. `selectionRange` is where the name
+ * first appears in the range, or the whole range when there is no text to search.
+ */
+const nestSymbols = (symbols: SymbolInformation[], text?: string): DocumentSymbol[] => {
+  const lines = text?.split('\n') ?? []
+  const sorted = symbols
+    .map(
+      ({ name, kind, tags, location: { range } }): DocumentSymbol => ({
+        name,
+        kind,
+        ...(tags && { tags }),
+        range,
+        selectionRange: findNameRange(lines, name, range) ?? range,
+      }),
+    )
+    .sort(
+      (a, b) =>
+        a.range.start.line - b.range.start.line ||
+        a.range.start.character - b.range.start.character ||
+        b.range.end.line - a.range.end.line ||
+        b.range.end.character - a.range.end.character,
+    )
+
+  const roots: DocumentSymbol[] = []
+  const open: DocumentSymbol[] = []
+  for (const symbol of sorted) {
+    while (open.length > 0 && !contains(open.at(-1)!.range, symbol.range)) open.pop()
+    const parent = open.at(-1)
+    if (parent) {
+      parent.children ??= []
+      parent.children.push(symbol)
+    } else {
+      roots.push(symbol)
+    }
+    open.push(symbol)
+  }
+  return roots
+}
+
+/**
+ * Normalize a document symbol result to hierarchical symbols
+ *
+ * @param result - Raw `DocumentSymbol[] | SymbolInformation[] | null` result
+ * @param text - Text of the document, used to find the names of flat symbols
+ * @returns Top-level symbols with their children; flat symbols are nested by range
+ */
+export const normalizeDocumentSymbols = (result: unknown, text?: string): DocumentSymbol[] => {
+  if (!Array.isArray(result)) return []
+  if (result.every(isDocumentSymbol)) return result
+  return nestSymbols(result.filter(isSymbolInformation), text)
+}
+
+/**
+ * List symbols and all their descendants, parents first
+ */
+export const flattenDocumentSymbols = (symbols: DocumentSymbol[]): DocumentSymbol[] =>
+  symbols.flatMap((symbol) => [symbol, ...flattenDocumentSymbols(symbol.children ?? [])])
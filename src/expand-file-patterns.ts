@@ -0,0 +1,42 @@
+import { Glob } from 'bun'
+import { resolveFilePath } from './resolve-file-path.ts'
+
+/**
+ * Check if an argument contains glob syntax
+ */
+export const isGlobPattern = (pattern: string): boolean => /[*?[\]{}]/.test(pattern)
+
+/**
+ * Expand file paths and glob patterns to absolute file paths
+ *
+ * @remarks
+ * Plain paths go through {@link resolveFilePath} and are kept even if they do not exist,
+ * so callers can report them as missing. Glob patterns are scanned relative to cwd and
+ * skip anything inside `node_modules`.
+ *
+ * @param patterns - File paths and/or glob patterns such as `src/**\/*.ts`
+ * @returns Unique absolute paths in argument order, glob matches sorted
+ */
+export const expandFilePatterns = async (patterns: string[]): Promise<string[]> => {
+  const cwd = process.cwd()
+  const files = new Set<string>()
+
+  for (const pattern of patterns) {
+    if (!isGlobPattern(pattern)) {
+      files.add(resolveFilePath(pattern))
+      continue
+    }
+
+    const matches: string[] = []
+    for await (const file of new Glob(pattern).scan({ cwd, absolute: true, onlyFiles: true })) {
+      if (!file.includes('/node_modules/')) {
+        matches.push(file)
+      }
+    }
+    for (const file of matches.sort()) {
+      files.add(file)
+    }
+  }
+
+  return [...files]
+}
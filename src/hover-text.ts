@@ -0,0 +1,23 @@
+/**
+ * Get the markdown text of hover contents
+ *
+ * @remarks
+ * `Hover.contents` is `MarkupContent`, or one or more deprecated `MarkedString`s.
+ * Code `MarkedString`s become fenced code blocks, so every shape reads like a
+ * markdown hover from typescript-language-server.
+ *
+ * @param hover - Raw `Hover | null` result
+ * @returns Markdown text, empty when there is no hover
+ */
+export const getHoverText = (hover: unknown): string => {
+  const contents = (hover as { contents?: unknown } | null)?.contents
+  const parts = Array.isArray(contents) ? contents : [contents]
+  return parts
+    .map((part) => {
+      if (typeof part === 'string') return part
+      const { language, value } = (part ?? {}) as { language?: string; value?: string }
+      if (value === undefined) return ''
+      return language === undefined ? value : `\`\`\`${language}\n${value}\n\`\`\``
+    })
+    .join('\n')
+}
@@ -0,0 +1,57 @@
+/**
+ * Programmatic API of the development skills
+ *
+ * @remarks
+ * The CLI commands print their results and exit. These functions return the same data
+ * and throw typed errors instead, for tools that embed them:
+ *
+ * ```ts
+ * import { hover, SymbolNotFoundError } from '@plaited/development-skills'
+ *
+ * const result = await hover('src/app.ts', { symbol: 'ConfigManager.load' })
+ * ```
+ *
+ * `LspClient` gives full access to the language server, with the LSP types from
+ * `lsp-types.ts` and the normalizers for their union shapes.
+ */
+
+export type { CallDirection, CallTreeNode } from './call-hierarchy.ts'
+export { flattenDocumentSymbols, normalizeDocumentSymbols } from './document-symbols.ts'
+export { getHoverText } from './hover-text.ts'
+export {
+  LspClient,
+  LspResponseError,
+  LspServerExitError,
+  type RequestOptions,
+  type TextDocumentContentChange,
+} from './lsp-client.ts'
+export { createLspClient } from './lsp-daemon.ts'
+export { normalizeLocations } from './lsp-locations.ts'
+export {
+  AmbiguousSymbolError,
+  type DocumentQueryOptions,
+  FileNotFoundError,
+  findDefinition,
+  findImplementations,
+  findReferences,
+  findSymbols,
+  findTypeDefinition,
+  getCallHierarchy,
+  getDocumentSymbols,
+  hover,
+  planRename,
+  type QueryOptions,
+  type QueryPosition,
+  SymbolNotFoundError,
+} from './lsp-queries.ts'
+export type * from './lsp-types.ts'
+export { resolveFilePath } from './resolve-file-path.ts'
+export type { SymbolCandidate } from './resolve-symbol-position.ts'
+export { resolveServer, SERVER_PRESETS, type ServerPreset } from './server-presets.ts'
+export {
+  type SkillProperties,
+  type ValidationResult,
+  validateSkillDirectory,
+  validateSkillPaths,
+} from './validate-skill.ts'
+export { applyFileChanges, createUnifiedDiff, type FileChange } from './workspace-edit.ts'
@@ -0,0 +1,44 @@
+/**
+ * Cancel in-flight LSP requests on Ctrl-C
+ *
+ * @remarks
+ * A command interrupted while it waits for a reference search would otherwise leave
+ * the server, or the daemon's server, working on it. Clients created with this signal
+ * send `$/cancelRequest` for every pending request before the process exits.
+ *
+ * Only the CLI entry points install the SIGINT handler, since it exits the process.
+ * Programs embedding the commands keep their own SIGINT behavior, and the signal is
+ * never aborted.
+ *
+ * @internal
+ */
+
+/** Exit code of a process ended by SIGINT */
+const SIGINT_EXIT_CODE = 130
+
+const controller = new AbortController()
+let listening = false
+
+/**
+ * Get the signal that is aborted when the process receives SIGINT
+ *
+ * @remarks
+ * Aborted only once {@link handleInterrupts} installed the handler.
+ */
+export const getInterruptSignal = (): AbortSignal => controller.signal
+
+/**
+ * Abort the interrupt signal and exit with code 130 on SIGINT
+ *
+ * @remarks
+ * Cancellations are written synchronously, so they are sent before the exit. Call this
+ * from executable entry points only.
+ */
+export const handleInterrupts = (): void => {
+  if (listening) return
+  listening = true
+  process.once('SIGINT', () => {
+    controller.abort(new Error('Interrupted'))
+    process.exit(SIGINT_EXIT_CODE)
+  })
+}
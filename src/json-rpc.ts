@@ -0,0 +1,141 @@
+/**
+ * JSON-RPC message types and LSP base protocol framing
+ *
+ * @remarks
+ * LSP frames every JSON-RPC message with a `Content-Length` header.
+ * Shared by {@link LspClient} and the LSP daemon, which both read framed
+ * messages from byte streams (subprocess stdout and Unix sockets).
+ *
+ * @internal
+ */
+
+export type JsonRpcRequest = {
+  jsonrpc: '2.0'
+  id: number | string
+  method: string
+  params?: unknown
+}
+
+export type JsonRpcResponse = {
+  jsonrpc: '2.0'
+  /** `null` only when the request id could not be read */
+  id: number | string | null
+  result?: unknown
+  error?: JsonRpcError
+}
+
+export type JsonRpcNotification = {
+  jsonrpc: '2.0'
+  method: string
+  params?: unknown
+}
+
+export type JsonRpcError = { code: number; message: string; data?: unknown }
+
+export type JsonRpcMessage = JsonRpcRequest | JsonRpcResponse | JsonRpcNotification
+
+/**
+ * Encode a message with its LSP `Content-Length` header
+ */
+export const encodeMessage = (message: JsonRpcMessage): string => {
+  const content = JSON.stringify(message)
+  return `Content-Length: ${Buffer.byteLength(content)}\r\n\r\n${content}`
+}
+
+/**
+ * Find the `\r\n\r\n` sequence that ends a message header
+ */
+const findHeaderEnd = (buffer: Uint8Array): number => {
+  for (let i = 0; i <= buffer.length - 4; i++) {
+    if (buffer[i] === 13 && buffer[i + 1] === 10 && buffer[i + 2] === 13 && buffer[i + 3] === 10) {
+      return i
+    }
+  }
+  return -1
+}
+
+/**
+ * Create a stateful reader that turns a stream of byte chunks into messages
+ *
+ * @remarks
+ * Content-Length counts bytes, so chunks are buffered as bytes and only
+ * decoded once a full message body is available.
+ * Invalid headers and invalid JSON bodies are skipped.
+ *
+ * @param onMessage - Called once for every complete message
+ * @returns Function to feed raw chunks into
+ */
+export const createMessageReader = (onMessage: (message: JsonRpcMessage) => void) => {
+  const decoder = new TextDecoder()
+  let buffer = new Uint8Array(0)
+  let contentLength = -1
+
+  return (chunk: Uint8Array): void => {
+    const next = new Uint8Array(buffer.length + chunk.length)
+    next.set(buffer)
+    next.set(chunk, buffer.length)
+    buffer = next
+
+    while (true) {
+      // Parse header if we don't have content length yet
+      if (contentLength === -1) {
+        const headerEndIndex = findHeaderEnd(buffer)
+        if (headerEndIndex === -1) break
+
+        const header = decoder.decode(buffer.slice(0, headerEndIndex))
+        buffer = buffer.slice(headerEndIndex + 4)
+        const match = header.match(/Content-Length: (\d+)/)
+        if (!match?.[1]) continue
+
+        contentLength = parseInt(match[1], 10)
+      }
+
+      if (buffer.length < contentLength) break
+
+      const content = decoder.decode(buffer.slice(0, contentLength))
+      buffer = buffer.slice(contentLength)
+      contentLength = -1
+
+      let message: JsonRpcMessage
+      try {
+        message = JSON.parse(content) as JsonRpcMessage
+      } catch {
+        // Skip invalid JSON
+        continue
+      }
+      onMessage(message)
+    }
+  }
+}
+
+/**
+ * Create a writer that queues bytes a socket could not accept yet
+ *
+ * @remarks
+ * Bun sockets write as much as the kernel buffer accepts and return the
+ * number of bytes written. Call `flush` from the socket's `drain` handler
+ * to send the remainder.
+ *
+ * @param socket - Socket to write to
+ */
+export const createSocketWriter = (socket: { write: (data: Uint8Array) => number }) => {
+  const encoder = new TextEncoder()
+  let pending = new Uint8Array(0)
+
+  const flush = (): void => {
+    if (pending.length === 0) return
+    const written = socket.write(pending)
+    pending = pending.slice(Math.max(written, 0))
+  }
+
+  const write = (data: string): void => {
+    const bytes = encoder.encode(data)
+    const next = new Uint8Array(pending.length + bytes.length)
+    next.set(pending)
+    next.set(bytes, pending.length)
+    pending = next
+    flush()
+  }
+
+  return { write, flush }
+}
@@ -0,0 +1,14 @@
+/**
+ * Get the LSP language identifier for a TypeScript/JavaScript file path
+ *
+ * @param path - File path or URI
+ * @returns `typescriptreact`, `typescript`, `javascriptreact` or `javascript`
+ */
+export const getLanguageId = (path: string): string =>
+  path.endsWith('.tsx')
+    ? 'typescriptreact'
+    : /\.[mc]?ts$/.test(path)
+      ? 'typescript'
+      : path.endsWith('.jsx')
+        ? 'javascriptreact'
+        : 'javascript'
@@ -5,65 +5,57 @@
  * Performs multiple LSP queries in a single session for efficiency.
  * Useful for understanding a file before making changes.
  *
- * Usage: bun lsp-analyze.ts <file> [options]
+ * Usage: bun lsp-analyze.ts <file|glob...> [options]
  *
  * Options:
  *   --symbols, -s       List all symbols in the file
- *   --exports, -e       List only exported symbols
- *   --hover <line:char> Get type info at position (can be repeated)
- *   --refs <line:char>  Find references at position (can be repeated)
+ *   --exports, -e       List the module's exports, resolved through re-exports
+ *   --hover <pos>       Get type info at line:char or symbol path (can be repeated)
+ *   --refs <pos>        Find references at line:char or symbol path (can be repeated)
+ *   --context <n>       Add the usage kind, source line and n lines around each reference
  *   --all               Run all analyses (symbols + exports)
+ *   --format <format>   Output format: json (default), text, compact or markdown
+ *   --server <server>   Language server preset or command (default: typescript-language-server)
  */
 
+import { relative } from 'node:path'
 import { parseArgs } from 'node:util'
-import { LspClient } from './lsp-client.ts'
-import { resolveFilePath } from './resolve-file-path.ts'
-
-type SymbolInfo = {
-  name: string
-  kind: number
-  range: { start: { line: number; character: number }; end: { line: number; character: number } }
-  children?: SymbolInfo[]
-}
+import type ts from 'typescript'
+import { documentContentOptions, hasProposedContent, readDocumentText } from './document-content.ts'
+import { normalizeDocumentSymbols } from './document-symbols.ts'
+import { expandFilePatterns, isGlobPattern } from './expand-file-patterns.ts'
+import { getInterruptSignal, handleInterrupts } from './interrupt-signal.ts'
+import { getLanguageId } from './language-id.ts'
+import type { LspClient } from './lsp-client.ts'
+import { createLspClient } from './lsp-daemon.ts'
+import { normalizeLocations } from './lsp-locations.ts'
+import type { DocumentSymbol } from './lsp-types.ts'
+import { createExportsProgram, getModuleExports, type ModuleExport } from './module-exports.ts'
+import { OUTPUT_FORMATS, parseOutputFormat, printResult } from './output-format.ts'
+import { addReferenceContext } from './reference-context.ts'
+import { resolveSymbolPosition, type SymbolCandidate } from './resolve-symbol-position.ts'
+import { symbolKindNames } from './symbol-kinds.ts'
+import { uriToPath } from './workspace-edit.ts'
 
-type AnalysisResult = {
+/**
+ * Result of analyzing one file
+ *
+ * @remarks
+ * `error` is set instead of the analyses when the file could not be analyzed.
+ */
+export type AnalysisResult = {
   file: string
+  error?: string
   symbols?: Array<{ name: string; kind: string; line: number }>
-  exports?: Array<{ name: string; kind: string; line: number }>
-  hovers?: Array<{ position: string; content: unknown }>
-  references?: Array<{ position: string; locations: unknown }>
+  exports?: ModuleExport[]
+  hovers?: Array<{ position: string; content?: unknown; candidates?: SymbolCandidate[] }>
+  references?: Array<{ position: string; locations?: unknown; candidates?: SymbolCandidate[] }>
 }
 
-const symbolKindNames: Record<number, string> = {
-  1: 'File',
-  2: 'Module',
-  3: 'Namespace',
-  4: 'Package',
-  5: 'Class',
-  6: 'Method',
-  7: 'Property',
-  8: 'Field',
-  9: 'Constructor',
-  10: 'Enum',
-  11: 'Interface',
-  12: 'Function',
-  13: 'Variable',
-  14: 'Constant',
-  15: 'String',
-  16: 'Number',
-  17: 'Boolean',
-  18: 'Array',
-  19: 'Object',
-  20: 'Key',
-  21: 'Null',
-  22: 'EnumMember',
-  23: 'Struct',
-  24: 'Event',
-  25: 'Operator',
-  26: 'TypeParameter',
-}
-
-const extractSymbols = (symbols: SymbolInfo[], prefix = ''): Array<{ name: string; kind: string; line: number }> => {
+const extractSymbols = (
+  symbols: DocumentSymbol[],
+  prefix = '',
+): Array<{ name: string; kind: string; line: number }> => {
   const result: Array<{ name: string; kind: string; line: number }> = []
   for (const sym of symbols) {
     result.push({
@@ -78,9 +70,125 @@ const extractSymbols = (symbols: SymbolInfo[], prefix = ''): Array<{ name: strin
   return result
 }
 
+/**
+ * Resolve a `--hover`/`--refs` value to a position
+ *
+ * @remarks
+ * Values are either `line:char` or a dotted symbol path (optionally prefixed with `#`).
+ * Symbol paths that match zero or several symbols return the candidates instead.
+ */
+const resolveOptionPosition = async ({
+  client,
+  uri,
+  value,
+}: {
+  client: LspClient
+  uri: string
+  value: string
+}): Promise<{ line: number; character: number } | { candidates: SymbolCandidate[] }> => {
+  const match = value.match(/^(\d+):(\d+)$/)
+  if (match?.[1] && match[2]) {
+    return { line: parseInt(match[1], 10), character: parseInt(match[2], 10) }
+  }
+
+  const candidates = await resolveSymbolPosition({ client, uri, symbol: value.replace(/^#/, '') })
+  return candidates.length === 1 ? candidates[0]! : { candidates }
+}
+
+/**
+ * Analyses to run for a document
+ */
+export type AnalysisOptions = {
+  symbols?: boolean
+  exports?: boolean
+  /** `line:char` positions or symbol paths */
+  hover?: string[]
+  /** `line:char` positions or symbol paths */
+  refs?: string[]
+  /** Lines around each reference; references get their usage kind and source line when set */
+  context?: number
+}
+
+/**
+ * Run the requested analyses on a document that is open in the client
+ *
+ * @param options - Running client, document URI, file label for the result, analyses to run,
+ *   and a program from {@link createExportsProgram} to share between documents
+ * @returns Analysis result with one entry per requested analysis
+ */
+export const analyzeDocument = async ({
+  client,
+  uri,
+  file,
+  options,
+  program,
+}: {
+  client: LspClient
+  uri: string
+  file: string
+  options: AnalysisOptions
+  program?: ts.Program
+}): Promise<AnalysisResult> => {
+  const result: AnalysisResult = { file }
+  const text = client.getDocumentText(uri)
+  // References in the open document come from its text, which may not be on disk
+  const texts = new Map(text === undefined ? [] : [[uriToPath(uri), text]])
+
+  // Get symbols if requested
+  if (options.symbols) {
+    result.symbols = extractSymbols(
+      normalizeDocumentSymbols(await client.documentSymbols(uri), client.getDocumentText(uri)),
+    )
+  }
+
+  // Exports come from the checker, which resolves renames and re-exports
+  if (options.exports) {
+    const path = uriToPath(uri)
+    result.exports = getModuleExports({ program: program ?? createExportsProgram([path]), file: path })
+  }
+
+  // Get hover info if requested
+  if (options.hover?.length) {
+    result.hovers = []
+    for (const pos of options.hover) {
+      const position = await resolveOptionPosition({ client, uri, value: pos })
+      if ('candidates' in position) {
+        result.hovers.push({ position: pos, candidates: position.candidates })
+      } else {
+        const hover = await client.hover(uri, position.line, position.character)
+        result.hovers.push({ position: pos, content: hover })
+      }
+    }
+  }
+
+  // Get references if requested
+  if (options.refs?.length) {
+    result.references = []
+    for (const pos of options.refs) {
+      const position = await resolveOptionPosition({ client, uri, value: pos })
+      if ('candidates' in position) {
+        result.references.push({ position: pos, candidates: position.candidates })
+      } else {
+        const refs = await client.references(uri, position.line, position.character, true)
+        const locations =
+          options.context === undefined
+            ? refs
+            : await addReferenceContext(normalizeLocations(refs), { context: options.context, texts })
+        result.references.push({ position: pos, locations })
+      }
+    }
+  }
+
+  return result
+}
+
 /**
  * Batch analysis for TypeScript/JavaScript files
  *
+ * @remarks
+ * All files share one LSP session. A single file path prints one result object;
+ * several paths or a glob print an array, with per-file errors in place of results.
+ *
  * @param args - Command line arguments
  */
 export const lspAnalyze = async (args: string[]) => {
@@ -91,125 +199,129 @@ export const lspAnalyze = async (args: string[]) => {
       exports: { type: 'boolean', short: 'e' },
       hover: { type: 'string', multiple: true },
       refs: { type: 'string', multiple: true },
+      context: { type: 'string' },
       all: { type: 'boolean' },
       help: { type: 'boolean', short: 'h' },
+      ...documentContentOptions,
+      server: { type: 'string' },
+      format: { type: 'string', default: 'json' },
     },
     allowPositionals: true,
   })
 
+  const format = parseOutputFormat(values.format)
+  if (!format) {
+    console.error(`Error: format must be one of ${OUTPUT_FORMATS.join(', ')}`)
+    process.exit(1)
+  }
+
   if (values.help || positionals.length === 0) {
     console.log(`
 LSP Analyze - Batch analysis for TypeScript/JavaScript files
 
-Usage: lsp-analyze <file> [options]
+Usage: lsp-analyze <file|glob...> [options]
 
 Options:
   --symbols, -s       List all symbols in the file
-  --exports, -e       List only exported symbols
-  --hover <line:char> Get type info at position (can be repeated)
-  --refs <line:char>  Find references at position (can be repeated)
+  --exports, -e       List the module's exports, resolved through re-exports
+  --hover <pos>       Get type info at line:char or symbol path (can be repeated)
+  --refs <pos>        Find references at line:char or symbol path (can be repeated)
+  --context <n>       Add the usage kind, source line and n lines around each reference
   --all               Run all analyses (symbols + exports)
+  --format <format>   Output format: json (default), text, compact or markdown
+  --server <server>   Language server preset or command (default: typescript-language-server)
+  --stdin             Analyze contents from stdin instead of the file on disk (one file only)
+  --content-file <path>  Analyze the contents of another file (one file only)
   --help, -h          Show this help
 
+Several files or a glob print an array of results, one per file.
+
 Examples:
   lsp-analyze src/app.ts --all
   lsp-analyze src/app.ts --symbols
   lsp-analyze src/app.ts --hover 50:15 --hover 60:20
   lsp-analyze src/app.ts --refs 10:8
+  lsp-analyze src/app.ts --refs parseConfig --context 2
+  lsp-analyze src/app.ts --hover ConfigManager.load --refs parseConfig
+  lsp-analyze 'src/**/*.ts' --exports
 `)
     process.exit(0)
   }
 
-  const filePath = positionals[0]
-  if (!filePath) {
-    console.error('Error: File path required')
+  const multiple = positionals.length > 1 || positionals.some(isGlobPattern)
+  if (multiple && hasProposedContent(values)) {
+    console.error('Error: --stdin and --content-file need a single file')
     process.exit(1)
   }
-  const absolutePath = resolveFilePath(filePath)
-  const uri = `file://${absolutePath}`
-  const rootUri = `file://${process.cwd()}`
-
-  const client = new LspClient({ rootUri })
-
-  try {
-    await client.start()
-
-    const file = Bun.file(absolutePath)
-    if (!(await file.exists())) {
-      console.error(`Error: File not found: ${absolutePath}`)
-      process.exit(1)
-    }
 
-    const text = await file.text()
-    const languageId = absolutePath.endsWith('.tsx')
-      ? 'typescriptreact'
-      : absolutePath.endsWith('.ts')
-        ? 'typescript'
-        : absolutePath.endsWith('.jsx')
-          ? 'javascriptreact'
-          : 'javascript'
-
-    client.openDocument(uri, languageId, 1, text)
+  const files = await expandFilePatterns(positionals)
+  if (files.length === 0) {
+    console.error(`Error: No files match: ${positionals.join(' ')}`)
+    process.exit(1)
+  }
 
-    const result: AnalysisResult = { file: filePath }
+  const cwd = process.cwd()
+  const rootUri = `file://${cwd}`
+  const options: AnalysisOptions = {
+    symbols: values.symbols || values.all,
+    exports: values.exports || values.all,
+    hover: values.hover,
+    refs: values.refs,
+    context: values.context === undefined ? undefined : parseInt(values.context, 10),
+  }
+  if (options.context !== undefined && (Number.isNaN(options.context) || options.context < 0)) {
+    console.error('Error: context must be a number of lines')
+    process.exit(1)
+  }
 
-    // Get symbols if requested
-    if (values.symbols || values.exports || values.all) {
-      const symbols = (await client.documentSymbols(uri)) as SymbolInfo[]
-      const extracted = extractSymbols(symbols)
+  const client = await createLspClient({
+    rootUri,
+    server: values.server,
+    signal: getInterruptSignal(),
+    daemon: !hasProposedContent(values),
+  })
 
-      if (values.symbols || values.all) {
-        result.symbols = extracted
-      }
+  try {
+    await client.start()
 
-      if (values.exports || values.all) {
-        // Filter to only top-level exports (items that start with export in source)
-        const lines = text.split('\n')
-        result.exports = extracted.filter((sym) => {
-          const line = lines[sym.line]
-          return line?.includes('export')
-        })
-      }
-    }
+    const proposed = hasProposedContent(values)
+    const program = options.exports && !proposed ? createExportsProgram(files) : undefined
+    const texts = new Map<string, string>()
+    const results: AnalysisResult[] = []
+    for (const absolutePath of files) {
+      const { text, source } = await readDocumentText(absolutePath, values)
+      const label = relative(cwd, absolutePath)
 
-    // Get hover info if requested
-    if (values.hover?.length) {
-      result.hovers = []
-      for (const pos of values.hover) {
-        const parts = pos.split(':')
-        const lineStr = parts[0] ?? ''
-        const charStr = parts[1] ?? ''
-        const line = parseInt(lineStr, 10)
-        const char = parseInt(charStr, 10)
-
-        if (!Number.isNaN(line) && !Number.isNaN(char)) {
-          const hover = await client.hover(uri, line, char)
-          result.hovers.push({ position: pos, content: hover })
+      if (text === undefined) {
+        if (!multiple) {
+          console.error(`Error: File not found: ${source}`)
+          await client.stop()
+          process.exit(1)
         }
+        results.push({ file: label, error: `File not found: ${source}` })
+        continue
       }
-    }
 
-    // Get references if requested
-    if (values.refs?.length) {
-      result.references = []
-      for (const pos of values.refs) {
-        const parts = pos.split(':')
-        const lineStr = parts[0] ?? ''
-        const charStr = parts[1] ?? ''
-        const line = parseInt(lineStr, 10)
-        const char = parseInt(charStr, 10)
-
-        if (!Number.isNaN(line) && !Number.isNaN(char)) {
-          const refs = await client.references(uri, line, char, true)
-          result.references.push({ position: pos, locations: refs })
-        }
+      const uri = `file://${absolutePath}`
+      client.openDocument(uri, getLanguageId(absolutePath), 1, text)
+      if (proposed) texts.set(absolutePath, text)
+
+      try {
+        // The checker reads files from disk, so proposed contents need a program of their own
+        const documentProgram =
+          proposed && options.exports ? createExportsProgram([absolutePath], new Map([[absolutePath, text]])) : program
+        results.push(await analyzeDocument({ client, uri, file: label, options, program: documentProgram }))
+      } catch (error) {
+        if (!multiple) throw error
+        results.push({ file: label, error: error instanceof Error ? error.message : String(error) })
+      } finally {
+        client.closeDocument(uri)
       }
     }
 
-    client.closeDocument(uri)
     await client.stop()
 
-    console.log(JSON.stringify(result, null, 2))
+    await printResult(multiple ? results : results[0], format, texts)
   } catch (error) {
     console.error('Error:', error)
     await client.stop()
@@ -219,5 +331,6 @@ Examples:
 
 // Keep executable entry point for direct execution
 if (import.meta.main) {
+  handleInterrupts()
   await lspAnalyze(Bun.argv.slice(2))
 }
@@ -0,0 +1,112 @@
+#!/usr/bin/env bun
+/**
+ * Show who calls a function, or what it calls, as a tree
+ *
+ * Usage: bun lsp-calls.ts <file> <line> <character> [--incoming|--outgoing] [--depth <n>]
+ *        bun lsp-calls.ts <file#Symbol.path> [--incoming|--outgoing] [--depth <n>]
+ */
+
+import { parseArgs } from 'node:util'
+import { documentContentOptions, hasProposedContent, readDocumentText } from './document-content.ts'
+import { getInterruptSignal, handleInterrupts } from './interrupt-signal.ts'
+import { getCallHierarchy } from './lsp-queries.ts'
+import { OUTPUT_FORMATS, parseOutputFormat, printQueryError, printResult } from './output-format.ts'
+import { resolveFilePath } from './resolve-file-path.ts'
+import { parseSymbolPath } from './resolve-symbol-position.ts'
+
+/**
+ * Print the call hierarchy of the function at a cursor position
+ *
+ * @param args - Command line arguments [file, line, character] or [file#Symbol.path]
+ */
+export const lspCalls = async (args: string[]) => {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      incoming: { type: 'boolean', default: false },
+      outgoing: { type: 'boolean', default: false },
+      depth: { type: 'string', default: '3' },
+      ...documentContentOptions,
+      server: { type: 'string' },
+      format: { type: 'string', default: 'json' },
+    },
+    allowPositionals: true,
+  })
+
+  const format = parseOutputFormat(values.format)
+  if (!format) {
+    console.error(`Error: format must be one of ${OUTPUT_FORMATS.join(', ')}`)
+    process.exit(1)
+  }
+
+  const [target, lineStr, charStr] = positionals
+  const symbolPath = target ? parseSymbolPath(target) : undefined
+
+  if (!target || (!symbolPath && (!lineStr || !charStr))) {
+    console.error('Usage: lsp-calls <file> <line> <character> [--incoming|--outgoing] [--depth <n>]')
+    console.error('       lsp-calls <file#Symbol.path> [--incoming|--outgoing] [--depth <n>]')
+    console.error('  file: Path to TypeScript/JavaScript file')
+    console.error('  line: Line number (0-indexed)')
+    console.error('  character: Character position (0-indexed)')
+    console.error('  Symbol.path: Dotted symbol name, e.g. src/app.ts#ConfigManager.load')
+    console.error('  --incoming: Show callers (default)')
+    console.error('  --outgoing: Show callees')
+    console.error('  --depth: Levels of calls to follow (default: 3)')
+    console.error('  --format: Output format: json (default), text, compact or markdown')
+    console.error('  --server: Language server preset or command (default: typescript-language-server)')
+    console.error('  --stdin, --content-file <path>: Query these contents instead of the file on disk')
+    process.exit(1)
+  }
+
+  if (values.incoming && values.outgoing) {
+    console.error('Error: use either --incoming or --outgoing')
+    process.exit(1)
+  }
+
+  const line = parseInt(lineStr ?? '', 10)
+  const character = parseInt(charStr ?? '', 10)
+  const depth = parseInt(values.depth, 10)
+
+  if (!symbolPath && (Number.isNaN(line) || Number.isNaN(character))) {
+    console.error('Error: line and character must be numbers')
+    process.exit(1)
+  }
+
+  if (Number.isNaN(depth) || depth < 1) {
+    console.error('Error: depth must be a positive number')
+    process.exit(1)
+  }
+
+  const direction = values.outgoing ? 'outgoing' : 'incoming'
+  const absolutePath = resolveFilePath(symbolPath?.filePath ?? target)
+  const { text, source } = await readDocumentText(absolutePath, values)
+  if (text === undefined) {
+    console.error(`Error: File not found: ${source}`)
+    process.exit(1)
+  }
+
+  try {
+    const result = await getCallHierarchy(
+      absolutePath,
+      symbolPath ? { symbol: symbolPath.symbol } : { line, character },
+      {
+        direction,
+        depth,
+        server: values.server,
+        text: hasProposedContent(values) ? text : undefined,
+        signal: getInterruptSignal(),
+      },
+    )
+
+    await printResult(result, format)
+  } catch (error) {
+    await printQueryError(error, format)
+    process.exit(1)
+  }
+}
+
+// Keep executable entry point for direct execution
+if (import.meta.main) {
+  handleInterrupts()
+  await lspCalls(Bun.argv.slice(2))
+}
@@ -2,94 +2,268 @@
  * TypeScript Language Server client using Bun.spawn
  *
  * @remarks
- * Spawns typescript-language-server as a subprocess and communicates via LSP JSON-RPC protocol.
+ * Spawns a language server (typescript-language-server by default) as a subprocess and
+ * communicates via LSP JSON-RPC protocol.
  * Uses Bun's native spawn API for process management.
  *
  * @internal
  */
 
-import type { Subprocess } from 'bun'
+import { basename } from 'node:path'
+import type { Socket, Subprocess } from 'bun'
+import {
+  createMessageReader,
+  createSocketWriter,
+  encodeMessage,
+  type JsonRpcError,
+  type JsonRpcMessage,
+  type JsonRpcNotification,
+  type JsonRpcRequest,
+  type JsonRpcResponse,
+} from './json-rpc.ts'
+import type {
+  CallHierarchyIncomingCall,
+  CallHierarchyItem,
+  CallHierarchyOutgoingCall,
+  CodeAction,
+  CodeActionContext,
+  Command,
+  CompletionItem,
+  CompletionList,
+  DefinitionResult,
+  Diagnostic,
+  DocumentSymbol,
+  Hover,
+  InitializeResult,
+  Location,
+  Position,
+  PrepareRenameResult,
+  Range,
+  SignatureHelp,
+  SymbolInformation,
+  TypeHierarchyItem,
+  WorkspaceEdit,
+  WorkspaceSymbol,
+} from './lsp-types.ts'
+import { DEFAULT_SERVER, getServerSetting, SERVER_PRESETS } from './server-presets.ts'
 
-type JsonRpcRequest = {
-  jsonrpc: '2.0'
-  id: number
-  method: string
-  params?: unknown
+/** An open document, kept so it can be reopened after a restart */
+type OpenDocument = {
+  languageId: string
+  version: number
+  text: string
 }
 
-type JsonRpcResponse = {
-  jsonrpc: '2.0'
-  id: number
-  result?: unknown
-  error?: { code: number; message: string; data?: unknown }
+type PendingRequest = {
+  resolve: (value: unknown) => void
+  reject: (error: unknown) => void
+  /** Clear the timeout and abort listener of the request */
+  dispose: () => void
 }
 
-type JsonRpcNotification = {
-  jsonrpc: '2.0'
-  method: string
-  params?: unknown
+/**
+ * Options of a single request
+ */
+export type RequestOptions = {
+  /** Cancels the request when aborted; it rejects with the signal's reason */
+  signal?: AbortSignal
+  /** Milliseconds before the request is cancelled, overriding the client's `requestTimeout`; 0 waits forever */
+  timeout?: number
 }
 
-type PendingRequest = {
-  resolve: (value: unknown) => void
-  reject: (error: Error) => void
-  timer?: ReturnType<typeof setTimeout>
+/**
+ * Handler for a request the server sends to the client
+ *
+ * @remarks
+ * The return value is sent as the result. Throw an {@link LspResponseError} to reply
+ * with a specific error; other errors are sent as internal errors.
+ */
+export type RequestHandler = (params: unknown) => unknown
+
+/**
+ * Handler for a notification the server sends to the client
+ */
+export type NotificationHandler = (params: unknown, method: string) => void
+
+/**
+ * Change to an open document: the full new text, or text replacing a range
+ *
+ * @remarks
+ * Ranges refer to the document as left by the previous change in the same list.
+ */
+export type TextDocumentContentChange = { text: string } | { range: Range; text: string }
+
+/** JSON-RPC MethodNotFound code */
+const METHOD_NOT_FOUND = -32601
+/** JSON-RPC InternalError code */
+const INTERNAL_ERROR = -32603
+/** Characters of server stderr kept for exit errors */
+const STDERR_LIMIT = 4096
+/** How long to wait for the rest of stderr after the server exits */
+const STDERR_GRACE = 100
+/** Restarts allowed within {@link RESTART_WINDOW} before the client gives up */
+const MAX_RESTARTS = 3
+const RESTART_WINDOW = 60000
+
+/**
+ * Apply a content change to the text of a document
+ *
+ * @internal
+ */
+export const applyContentChange = (text: string, change: TextDocumentContentChange): string => {
+  if (!('range' in change)) return change.text
+
+  const offsetAt = ({ line, character }: Position) => {
+    let start = 0
+    for (let index = 0; index < line; index++) {
+      const newline = text.indexOf('\n', start)
+      if (newline === -1) return text.length
+      start = newline + 1
+    }
+    const end = text.indexOf('\n', start)
+    return Math.min(start + character, end === -1 ? text.length : end)
+  }
+
+  return text.slice(0, offsetAt(change.range.start)) + change.text + text.slice(offsetAt(change.range.end))
 }
 
 /**
- * LSP Client that manages a typescript-language-server subprocess
+ * Error response returned by the language server for a request
+ */
+export class LspResponseError extends Error {
+  readonly response: JsonRpcError
+
+  constructor(response: JsonRpcError) {
+    super(`LSP Error: ${response.message}`)
+    this.name = 'LspResponseError'
+    this.response = response
+  }
+}
+
+/**
+ * The language server process exited while the client was running
+ *
+ * @remarks
+ * Pending requests are rejected with this error as soon as the process exits.
+ */
+export class LspServerExitError extends Error {
+  readonly exitCode: number | null
+  /** End of what the server wrote to stderr */
+  readonly stderr: string
+
+  constructor(exitCode: number | null, stderr: string) {
+    const lastLine = stderr.trimEnd().split('\n').at(-1)
+    super(`LSP server exited with code ${exitCode}${lastLine ? `: ${lastLine}` : ''}`)
+    this.name = 'LspServerExitError'
+    this.exitCode = exitCode
+    this.stderr = stderr
+  }
+}
+
+/**
+ * LSP Client that manages a language server subprocess
+ *
+ * @remarks
+ * When `socketPath` is given, the client connects to an LSP server listening
+ * on that Unix socket (such as the LSP daemon) instead of spawning one.
+ *
+ * With `autoRestart`, a server that exits unexpectedly is started again and the
+ * open documents are reopened with their current contents. Requests made while
+ * it restarts wait for it. After {@link MAX_RESTARTS} restarts within a minute the
+ * client stops restarting and behaves as if it was stopped.
+ *
+ * Requests that time out or are aborted are cancelled on the server with
+ * `$/cancelRequest`. Aborting the client's `signal` cancels all of them.
  */
 export class LspClient {
   #process: Subprocess | null = null
+  #socket: Socket | null = null
+  #socketWriter: ReturnType<typeof createSocketWriter> | null = null
   #requestId = 0
-  #pendingRequests = new Map<number, PendingRequest>()
-  #buffer = new Uint8Array(0)
-  #contentLength = -1
+  #pendingRequests = new Map<JsonRpcRequest['id'], PendingRequest>()
+  #read = createMessageReader((message) => this.#handleMessage(message))
   #initialized = false
+  #initializeResult: InitializeResult | null = null
+  #diagnostics = new Map<string, Diagnostic[]>()
+  #documents = new Map<string, OpenDocument>()
+  #stderr = ''
+  #autoRestart: boolean
+  #restartTimes: number[] = []
+  #restarting: Promise<void> | null = null
+  #lastDiagnosticsAt = 0
+  /** Tokens of `$/progress` work that has begun and not yet ended */
+  #activeProgress = new Set<number | string>()
+  #requestHandlers = new Map<string, RequestHandler>()
+  #notificationHandlers = new Map<string, Set<NotificationHandler>>()
   #rootUri: string
   #serverCommand: string[]
+  #initializationOptions: unknown
+  #settings?: Record<string, unknown>
+  #socketPath?: string
   #requestTimeout: number
+  #signal?: AbortSignal
 
   constructor({
     rootUri,
-    command = ['bun', 'typescript-language-server', '--stdio'],
+    command = SERVER_PRESETS[DEFAULT_SERVER]!.command,
+    initializationOptions,
+    settings,
+    socketPath,
     requestTimeout = 30000,
+    autoRestart = false,
+    signal,
   }: {
     rootUri: string
     command?: string[]
+    initializationOptions?: unknown
+    settings?: Record<string, unknown>
+    socketPath?: string
     requestTimeout?: number
+    autoRestart?: boolean
+    signal?: AbortSignal
   }) {
     this.#rootUri = rootUri
     this.#serverCommand = command
+    this.#initializationOptions = initializationOptions
+    this.#settings = settings
+    this.#socketPath = socketPath
     this.#requestTimeout = requestTimeout
+    this.#autoRestart = autoRestart
+    this.#signal = signal
+    this.#registerDefaultHandlers()
   }
 
   /**
-   * Start the LSP server subprocess
+   * Start the LSP server subprocess, or connect to the server socket
    */
   async start(): Promise<void> {
-    if (this.#process) {
+    if (this.#process || this.#socket) {
       throw new Error('LSP server already running')
     }
 
-    this.#process = Bun.spawn(this.#serverCommand, {
-      stdin: 'pipe',
-      stdout: 'pipe',
-      stderr: 'pipe',
-    })
-
-    // Start reading stdout
-    this.#readOutput()
+    if (this.#socketPath) {
+      this.#socket = await Bun.connect({
+        unix: this.#socketPath,
+        socket: {
+          data: (_socket, chunk) => this.#read(chunk),
+          drain: () => this.#socketWriter?.flush(),
+          close: () => this.#handleSocketClose(),
+        },
+      })
+      this.#socketWriter = createSocketWriter(this.#socket)
+    } else {
+      this.#spawn()
+    }
 
     // Initialize the LSP connection
     await this.#initialize()
   }
 
   /**
-   * Stop the LSP server subprocess
+   * Stop the LSP server subprocess, or disconnect from the server socket
    */
   async stop(): Promise<void> {
-    if (!this.#process) return
+    if (!this.#process && !this.#socket) return
 
     // Send shutdown request
     try {
@@ -99,26 +273,53 @@ export class LspClient {
       // Ignore errors during shutdown
     }
 
-    this.#process.kill()
+    this.#process?.kill()
     this.#process = null
+    this.#socket?.end()
+    this.#socket = null
+    this.#socketWriter = null
     this.#initialized = false
+    this.#activeProgress.clear()
+    this.#documents.clear()
   }
 
   /**
-   * Check if the LSP server is running
+   * Check if the LSP server is running, or restarting after a crash
    */
   isRunning(): boolean {
-    return this.#process !== null && this.#initialized
+    return ((this.#process !== null || this.#socket !== null) && this.#initialized) || this.#restarting !== null
+  }
+
+  /**
+   * Result of the `initialize` request (server capabilities and info)
+   */
+  get initializeResult(): InitializeResult | null {
+    return this.#initializeResult
   }
 
   /**
    * Send a request to the LSP server and wait for response
+   *
+   * @param options - Abort signal and timeout of this request
    */
-  async request<T = unknown>(method: string, params: unknown): Promise<T> {
-    if (!this.#process) {
+  async request<T = unknown>(method: string, params: unknown, options: RequestOptions = {}): Promise<T> {
+    if (this.#restarting) await this.#restarting
+    return this.#request<T>(method, params, options)
+  }
+
+  async #request<T>(
+    method: string,
+    params: unknown,
+    { signal, timeout = this.#requestTimeout }: RequestOptions = {},
+  ): Promise<T> {
+    if (!this.#process && !this.#socket) {
       throw new Error('LSP server not running')
     }
 
+    const signals = [signal, this.#signal].filter((value) => value !== undefined)
+    const abortSignal = signals.length > 1 ? AbortSignal.any(signals) : signals[0]
+    abortSignal?.throwIfAborted()
+
     this.#requestId += 1
     const id = this.#requestId
     const request: JsonRpcRequest = {
@@ -129,25 +330,51 @@ export class LspClient {
     }
 
     return new Promise((resolve, reject) => {
-      const timer = setTimeout(() => {
-        this.#pendingRequests.delete(id)
-        reject(new Error(`LSP request timeout: ${method} (id=${id})`))
-      }, this.#requestTimeout)
+      const cancel = (reason: unknown) => {
+        this.#takePending(id)
+        try {
+          // Tell the server to stop working on it
+          this.notify('$/cancelRequest', { id })
+        } catch {
+          // The server is gone already
+        }
+        reject(reason)
+      }
+      const timer =
+        timeout > 0
+          ? setTimeout(() => cancel(new Error(`LSP request timeout: ${method} (id=${id})`)), timeout)
+          : undefined
+      const onAbort = () => cancel(abortSignal?.reason)
+      abortSignal?.addEventListener('abort', onAbort, { once: true })
 
       this.#pendingRequests.set(id, {
         resolve: resolve as (value: unknown) => void,
         reject,
-        timer,
+        dispose: () => {
+          clearTimeout(timer)
+          abortSignal?.removeEventListener('abort', onAbort)
+        },
       })
       this.#send(request)
     })
   }
 
+  /**
+   * Remove a pending request and stop its timeout and abort listener
+   */
+  #takePending(id: JsonRpcRequest['id']): PendingRequest | undefined {
+    const pending = this.#pendingRequests.get(id)
+    if (!pending) return undefined
+    this.#pendingRequests.delete(id)
+    pending.dispose()
+    return pending
+  }
+
   /**
    * Send a notification to the LSP server (no response expected)
    */
   notify(method: string, params?: unknown): void {
-    if (!this.#process) {
+    if (!this.#process && !this.#socket) {
       throw new Error('LSP server not running')
     }
 
@@ -160,12 +387,51 @@ export class LspClient {
     this.#send(notification)
   }
 
+  /**
+   * Handle a request the server sends to the client
+   *
+   * @remarks
+   * Replaces the current handler for `method`, including the default reply.
+   * Requests without a handler are answered with a MethodNotFound error.
+   *
+   * @returns Function that restores the previous handler
+   */
+  onRequest(method: string, handler: RequestHandler): () => void {
+    const previous = this.#requestHandlers.get(method)
+    this.#requestHandlers.set(method, handler)
+    return () => {
+      if (this.#requestHandlers.get(method) !== handler) return
+      if (previous) this.#requestHandlers.set(method, previous)
+      else this.#requestHandlers.delete(method)
+    }
+  }
+
+  /**
+   * Subscribe to notifications the server sends, such as `$/progress` or `window/logMessage`
+   *
+   * @remarks
+   * Use `*` to receive every notification. Errors thrown by handlers are ignored.
+   *
+   * @returns Function that removes the handler
+   */
+  onNotification(method: string, handler: NotificationHandler): () => void {
+    let handlers = this.#notificationHandlers.get(method)
+    if (!handlers) {
+      handlers = new Set()
+      this.#notificationHandlers.set(method, handlers)
+    }
+    handlers.add(handler)
+    return () => {
+      handlers.delete(handler)
+    }
+  }
+
   // LSP Methods
 
   /**
    * textDocument/hover - Get hover information at a position
    */
-  async hover(uri: string, line: number, character: number): Promise<unknown> {
+  async hover(uri: string, line: number, character: number): Promise<Hover | null> {
     return this.request('textDocument/hover', {
       textDocument: { uri },
       position: { line, character },
@@ -175,17 +441,42 @@ export class LspClient {
   /**
    * textDocument/definition - Go to definition
    */
-  async definition(uri: string, line: number, character: number): Promise<unknown> {
+  async definition(uri: string, line: number, character: number): Promise<DefinitionResult> {
     return this.request('textDocument/definition', {
       textDocument: { uri },
       position: { line, character },
     })
   }
 
+  /**
+   * textDocument/typeDefinition - Go to the definition of the type of a symbol
+   */
+  async typeDefinition(uri: string, line: number, character: number): Promise<DefinitionResult> {
+    return this.request('textDocument/typeDefinition', {
+      textDocument: { uri },
+      position: { line, character },
+    })
+  }
+
+  /**
+   * textDocument/implementation - Go to implementations of an interface, abstract member or type
+   */
+  async implementation(uri: string, line: number, character: number): Promise<DefinitionResult> {
+    return this.request('textDocument/implementation', {
+      textDocument: { uri },
+      position: { line, character },
+    })
+  }
+
   /**
    * textDocument/references - Find all references
    */
-  async references(uri: string, line: number, character: number, includeDeclaration = true): Promise<unknown> {
+  async references(
+    uri: string,
+    line: number,
+    character: number,
+    includeDeclaration = true,
+  ): Promise<Location[] | null> {
     return this.request('textDocument/references', {
       textDocument: { uri },
       position: { line, character },
@@ -193,10 +484,31 @@ export class LspClient {
     })
   }
 
+  /**
+   * textDocument/prepareRename - Check that the symbol at a position can be renamed
+   */
+  async prepareRename(uri: string, line: number, character: number): Promise<PrepareRenameResult> {
+    return this.request('textDocument/prepareRename', {
+      textDocument: { uri },
+      position: { line, character },
+    })
+  }
+
+  /**
+   * textDocument/rename - Compute the workspace edit that renames the symbol at a position
+   */
+  async rename(uri: string, line: number, character: number, newName: string): Promise<WorkspaceEdit | null> {
+    return this.request('textDocument/rename', {
+      textDocument: { uri },
+      position: { line, character },
+      newName,
+    })
+  }
+
   /**
    * textDocument/completion - Get completions at a position
    */
-  async completion(uri: string, line: number, character: number): Promise<unknown> {
+  async completion(uri: string, line: number, character: number): Promise<CompletionItem[] | CompletionList | null> {
     return this.request('textDocument/completion', {
       textDocument: { uri },
       position: { line, character },
@@ -206,7 +518,7 @@ export class LspClient {
   /**
    * textDocument/signatureHelp - Get signature help
    */
-  async signatureHelp(uri: string, line: number, character: number): Promise<unknown> {
+  async signatureHelp(uri: string, line: number, character: number): Promise<SignatureHelp | null> {
     return this.request('textDocument/signatureHelp', {
       textDocument: { uri },
       position: { line, character },
@@ -215,8 +527,11 @@ export class LspClient {
 
   /**
    * textDocument/documentSymbol - Get document symbols
+   *
+   * @remarks
+   * Use `normalizeDocumentSymbols` for the hierarchical shape whichever the server returns.
    */
-  async documentSymbols(uri: string): Promise<unknown> {
+  async documentSymbols(uri: string): Promise<DocumentSymbol[] | SymbolInformation[] | null> {
     return this.request('textDocument/documentSymbol', {
       textDocument: { uri },
     })
@@ -225,15 +540,158 @@ export class LspClient {
   /**
    * workspace/symbol - Search for symbols across workspace
    */
-  async workspaceSymbols(query: string): Promise<unknown> {
+  async workspaceSymbols(query: string): Promise<SymbolInformation[] | WorkspaceSymbol[] | null> {
     return this.request('workspace/symbol', { query })
   }
 
+  /**
+   * textDocument/prepareCallHierarchy - Get the call hierarchy items for the symbol at a position
+   */
+  async prepareCallHierarchy(uri: string, line: number, character: number): Promise<CallHierarchyItem[] | null> {
+    return this.request('textDocument/prepareCallHierarchy', {
+      textDocument: { uri },
+      position: { line, character },
+    })
+  }
+
+  /**
+   * callHierarchy/incomingCalls - Get the callers of a call hierarchy item
+   */
+  async incomingCalls(item: CallHierarchyItem): Promise<CallHierarchyIncomingCall[] | null> {
+    return this.request('callHierarchy/incomingCalls', { item })
+  }
+
+  /**
+   * callHierarchy/outgoingCalls - Get the functions a call hierarchy item calls
+   */
+  async outgoingCalls(item: CallHierarchyItem): Promise<CallHierarchyOutgoingCall[] | null> {
+    return this.request('callHierarchy/outgoingCalls', { item })
+  }
+
+  /**
+   * textDocument/prepareTypeHierarchy - Get the type hierarchy items for the class or interface at a position
+   */
+  async prepareTypeHierarchy(uri: string, line: number, character: number): Promise<TypeHierarchyItem[] | null> {
+    return this.request('textDocument/prepareTypeHierarchy', {
+      textDocument: { uri },
+      position: { line, character },
+    })
+  }
+
+  /**
+   * typeHierarchy/supertypes - Get the direct supertypes of a type hierarchy item
+   */
+  async typeHierarchySupertypes(item: TypeHierarchyItem): Promise<TypeHierarchyItem[] | null> {
+    return this.request('typeHierarchy/supertypes', { item })
+  }
+
+  /**
+   * typeHierarchy/subtypes - Get the direct subtypes of a type hierarchy item
+   */
+  async typeHierarchySubtypes(item: TypeHierarchyItem): Promise<TypeHierarchyItem[] | null> {
+    return this.request('typeHierarchy/subtypes', { item })
+  }
+
+  /**
+   * textDocument/codeAction - Get code actions (quick fixes, refactors, source actions) for a range
+   *
+   * @param context - Diagnostics overlapping the range, and optional action kinds to limit the result to
+   */
+  async codeAction(uri: string, range: Range, context: CodeActionContext): Promise<Array<Command | CodeAction> | null> {
+    return this.request('textDocument/codeAction', {
+      textDocument: { uri },
+      range,
+      context,
+    })
+  }
+
+  /**
+   * codeAction/resolve - Fill in lazily computed properties (such as `edit`) of a code action
+   */
+  async resolveCodeAction(action: CodeAction): Promise<CodeAction> {
+    return this.request('codeAction/resolve', action)
+  }
+
+  /**
+   * workspace/executeCommand - Run a server command, such as one attached to a code action
+   */
+  async executeCommand(command: string, args?: unknown[]): Promise<unknown> {
+    return this.request('workspace/executeCommand', { command, arguments: args })
+  }
+
+  /**
+   * Latest diagnostics published by the server for a document
+   *
+   * @returns Diagnostics, or `undefined` if none were published since the document was opened
+   */
+  getDiagnostics(uri: string): Diagnostic[] | undefined {
+    return this.#diagnostics.get(uri)
+  }
+
+  /**
+   * Wait until diagnostics were published for every document and the server stopped publishing
+   *
+   * @remarks
+   * Servers publish diagnostics asynchronously and may publish several times per
+   * document (e.g. syntactic before semantic results), so this waits for a quiet period
+   * after the last publish.
+   *
+   * @param uris - Documents that must have diagnostics
+   * @param options - `quietPeriod` without new diagnostics and overall `timeout`, in milliseconds
+   * @returns `true` if diagnostics settled, `false` if the timeout was reached first
+   */
+  async waitForDiagnostics(uris: string[], { quietPeriod = 500, timeout = 30000 } = {}): Promise<boolean> {
+    const deadline = Date.now() + timeout
+    while (Date.now() < deadline) {
+      const received = uris.every((uri) => this.#diagnostics.has(uri))
+      if (received && Date.now() - this.#lastDiagnosticsAt >= quietPeriod) return true
+      await Bun.sleep(50)
+    }
+    return false
+  }
+
+  /**
+   * Wait until the server finished loading the project of an open document
+   *
+   * @remarks
+   * Workspace-wide requests such as `workspace/symbol` answer from whatever the server
+   * has loaded so far. A hover probe on the document forces its project to load, and
+   * any `$/progress` work still running after that (e.g. project initialization) must end.
+   *
+   * @param uri - Open document whose project must be loaded
+   * @param options - Overall `timeout` in milliseconds
+   * @returns `true` if the server is ready, `false` if the timeout was reached first
+   */
+  async waitForReady(uri: string, { timeout = 30000 } = {}): Promise<boolean> {
+    const deadline = Date.now() + timeout
+
+    // Any answer, including an error, means the server processed the document
+    const probe = this.hover(uri, 0, 0).then(
+      () => true,
+      () => true,
+    )
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const timedOut = new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(false), timeout)
+    })
+    const probed = await Promise.race([probe, timedOut])
+    clearTimeout(timer)
+    if (!probed) return false
+
+    while (this.#activeProgress.size > 0) {
+      if (Date.now() >= deadline) return false
+      await Bun.sleep(50)
+    }
+    return true
+  }
+
   /**
    * Open a document in the LSP server
    */
   openDocument(uri: string, languageId: string, version: number, text: string): void {
-    this.notify('textDocument/didOpen', {
+    this.#diagnostics.delete(uri)
+    this.#documents.set(uri, { languageId, version, text })
+    this.#notifyDocument('textDocument/didOpen', {
       textDocument: {
         uri,
         languageId,
@@ -247,19 +705,91 @@ export class LspClient {
    * Close a document in the LSP server
    */
   closeDocument(uri: string): void {
-    this.notify('textDocument/didClose', {
+    this.#documents.delete(uri)
+    this.#notifyDocument('textDocument/didClose', {
       textDocument: { uri },
     })
   }
 
+  /**
+   * Change the content of an open document without saving it
+   *
+   * @remarks
+   * Diagnostics of the document are cleared until the server publishes them for the
+   * new content, so {@link LspClient.waitForDiagnostics} waits for fresh results.
+   *
+   * @param uri - Open document
+   * @param changes - New full text, or content changes applied in order
+   * @param version - New version, which must be higher than the current one (default: current + 1)
+   * @returns The new version
+   */
+  changeDocument(uri: string, changes: string | TextDocumentContentChange[], version?: number): number {
+    const document = this.#documents.get(uri)
+    if (!document) {
+      throw new Error(`Document not open: ${uri}`)
+    }
+    const next = version ?? document.version + 1
+    if (next <= document.version) {
+      throw new Error(`Document version must increase: ${next} <= ${document.version}`)
+    }
+
+    const contentChanges = typeof changes === 'string' ? [{ text: changes }] : changes
+    document.version = next
+    document.text = contentChanges.reduce(applyContentChange, document.text)
+    this.#diagnostics.delete(uri)
+    this.#notifyDocument('textDocument/didChange', {
+      textDocument: { uri, version: next },
+      contentChanges,
+    })
+    return next
+  }
+
+  /**
+   * Current version of an open document, or `undefined` if it is not open
+   */
+  getDocumentVersion(uri: string): number | undefined {
+    return this.#documents.get(uri)?.version
+  }
+
+  /**
+   * Current text of an open document, or `undefined` if it is not open
+   */
+  getDocumentText(uri: string): string | undefined {
+    return this.#documents.get(uri)?.text
+  }
+
+  /**
+   * Version the server has for an open document
+   *
+   * @remarks
+   * The daemon shares documents between its connections and numbers their versions
+   * itself, so through the daemon this differs from {@link getDocumentVersion}. Versioned
+   * edits the server returns are checked against this version.
+   */
+  async getServerDocumentVersion(uri: string): Promise<number | undefined> {
+    if (!this.#socketPath) return this.getDocumentVersion(uri)
+    return (await this.request<number | null>('daemon/documentVersion', { textDocument: { uri } })) ?? undefined
+  }
+
+  /**
+   * Send document sync, unless the server is restarting and will reopen the documents
+   */
+  #notifyDocument(method: string, params: unknown): void {
+    if (this.#restarting) return
+    this.notify(method, params)
+  }
+
   async #initialize(): Promise<void> {
-    const result = await this.request('initialize', {
+    const result = await this.#request<InitializeResult>('initialize', {
       processId: process.pid,
       rootUri: this.#rootUri,
+      initializationOptions: this.#initializationOptions,
       capabilities: {
         textDocument: {
           hover: { contentFormat: ['markdown', 'plaintext'] },
           definition: { linkSupport: true },
+          typeDefinition: { linkSupport: true },
+          implementation: { linkSupport: true },
           references: {},
           completion: {
             completionItem: {
@@ -275,126 +805,263 @@ export class LspClient {
           documentSymbol: {
             hierarchicalDocumentSymbolSupport: true,
           },
+          rename: { prepareSupport: true },
+          callHierarchy: {},
+          typeHierarchy: {},
+          codeAction: {
+            codeActionLiteralSupport: {
+              codeActionKind: {
+                valueSet: ['quickfix', 'refactor', 'refactor.extract', 'refactor.inline', 'refactor.rewrite', 'source'],
+              },
+            },
+            isPreferredSupport: true,
+            dataSupport: true,
+            resolveSupport: { properties: ['edit'] },
+          },
+          publishDiagnostics: {
+            relatedInformation: true,
+          },
+        },
+        window: {
+          workDoneProgress: true,
         },
         workspace: {
           symbol: { symbolKind: {} },
+          executeCommand: {},
+          applyEdit: true,
+          configuration: true,
+          workspaceFolders: true,
+          workspaceEdit: {
+            documentChanges: true,
+            resourceOperations: ['create', 'rename', 'delete'],
+          },
         },
       },
     })
 
+    this.#initializeResult = result
     this.notify('initialized', {})
     this.#initialized = true
+  }
 
-    return result as Promise<void>
+  /**
+   * Default replies for server requests, and progress and diagnostics tracking
+   */
+  #registerDefaultHandlers(): void {
+    // Sections without preset settings get null, so servers use their defaults
+    this.onRequest('workspace/configuration', (params) =>
+      (params as { items: Array<{ section?: string }> }).items.map(({ section }) =>
+        getServerSetting(this.#settings, section),
+      ),
+    )
+    this.onRequest('workspace/workspaceFolders', () => [
+      { uri: this.#rootUri, name: basename(this.#rootUri.replace(/^file:\/\//, '')) },
+    ])
+    this.onRequest('window/workDoneProgress/create', () => null)
+    this.onRequest('client/registerCapability', () => null)
+    this.onRequest('client/unregisterCapability', () => null)
+    this.onRequest('window/showMessageRequest', () => null)
+    this.onRequest('window/showDocument', () => ({ success: false }))
+    // Commands that write edits register their own handler
+    this.onRequest('workspace/applyEdit', () => ({
+      applied: false,
+      failureReason: 'Edits are not applied by this client',
+    }))
+
+    this.onNotification('$/progress', (params) => {
+      const { token, value } = params as { token: number | string; value?: { kind?: string } }
+      if (value?.kind === 'begin') this.#activeProgress.add(token)
+      else if (value?.kind === 'end') this.#activeProgress.delete(token)
+    })
+
+    this.onNotification('textDocument/publishDiagnostics', (params) => {
+      const { uri, diagnostics } = params as { uri: string; diagnostics: Diagnostic[] }
+      this.#diagnostics.set(uri, diagnostics)
+      this.#lastDiagnosticsAt = Date.now()
+    })
   }
 
-  #send(message: JsonRpcRequest | JsonRpcNotification): void {
+  #send(message: JsonRpcMessage): void {
+    if (this.#socketWriter) {
+      this.#socketWriter.write(encodeMessage(message))
+      return
+    }
+
     const stdin = this.#process?.stdin
     if (!stdin || typeof stdin === 'number') {
       throw new Error('LSP server stdin not available')
     }
 
-    const content = JSON.stringify(message)
-    const header = `Content-Length: ${Buffer.byteLength(content)}\r\n\r\n`
-
-    stdin.write(header + content)
+    stdin.write(encodeMessage(message))
+    // Write now rather than on the next tick, in case the process exits (e.g. on Ctrl-C)
+    stdin.flush()
   }
 
-  async #readOutput(): Promise<void> {
-    const stdout = this.#process?.stdout
-    if (!stdout || typeof stdout === 'number') return
+  /**
+   * Spawn the server and start reading its output and watching for its exit
+   */
+  #spawn(): void {
+    const subprocess = Bun.spawn(this.#serverCommand, {
+      stdin: 'pipe',
+      stdout: 'pipe',
+      stderr: 'pipe',
+    })
+    this.#process = subprocess
+    this.#stderr = ''
+
+    this.#readOutput(subprocess)
+    const stderrRead = this.#readStderr(subprocess)
+    subprocess.exited.then(async (exitCode) => {
+      // Let the last stderr output arrive, unless a child process keeps the pipe open
+      await Promise.race([stderrRead, Bun.sleep(STDERR_GRACE)])
+      this.#handleProcessExit(subprocess, exitCode)
+    })
+  }
 
-    const reader = stdout.getReader()
+  async #readOutput(subprocess: Subprocess<'pipe', 'pipe', 'pipe'>): Promise<void> {
+    const reader = subprocess.stdout.getReader()
 
     try {
       while (true) {
         const { done, value } = await reader.read()
         if (done) break
 
-        // Append new bytes to buffer
-        const newBuffer = new Uint8Array(this.#buffer.length + value.length)
-        newBuffer.set(this.#buffer)
-        newBuffer.set(value, this.#buffer.length)
-        this.#buffer = newBuffer
-
-        this.#processBuffer()
+        this.#read(value)
       }
     } catch {
       // Stream closed
     }
   }
 
-  #processBuffer(): void {
+  /**
+   * Keep the end of stderr for exit errors (an unread pipe could also fill up and block the server)
+   */
+  async #readStderr(subprocess: Subprocess<'pipe', 'pipe', 'pipe'>): Promise<void> {
+    const reader = subprocess.stderr.getReader()
     const decoder = new TextDecoder()
 
-    while (true) {
-      // Parse header if we don't have content length yet
-      if (this.#contentLength === -1) {
-        // Look for header end sequence: \r\n\r\n
-        const headerEndIndex = this.#findHeaderEnd()
-        if (headerEndIndex === -1) break
-
-        const headerBytes = this.#buffer.slice(0, headerEndIndex)
-        const header = decoder.decode(headerBytes)
-        const match = header.match(/Content-Length: (\d+)/)
-        if (!match?.[1]) {
-          // Skip invalid header
-          this.#buffer = this.#buffer.slice(headerEndIndex + 4)
-          continue
-        }
+    try {
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
 
-        this.#contentLength = parseInt(match[1], 10)
-        this.#buffer = this.#buffer.slice(headerEndIndex + 4)
+        if (this.#process === subprocess) {
+          this.#stderr = (this.#stderr + decoder.decode(value, { stream: true })).slice(-STDERR_LIMIT)
+        }
       }
+    } catch {
+      // Stream closed
+    }
+  }
 
-      // Check if we have enough content (now comparing bytes to bytes)
-      if (this.#buffer.length < this.#contentLength) break
+  #handleProcessExit(subprocess: Subprocess, exitCode: number | null): void {
+    // Exits after stop() or of a replaced process are expected
+    if (this.#process !== subprocess) return
 
-      const contentBytes = this.#buffer.slice(0, this.#contentLength)
-      const content = decoder.decode(contentBytes)
-      this.#buffer = this.#buffer.slice(this.#contentLength)
-      this.#contentLength = -1
+    this.#process = null
+    this.#initialized = false
+    this.#activeProgress.clear()
+    this.#rejectPending(new LspServerExitError(exitCode, this.#stderr))
 
-      try {
-        const message = JSON.parse(content) as JsonRpcResponse
-        this.#handleMessage(message)
-      } catch {
-        // Skip invalid JSON
-      }
+    if (this.#restarting) return
+    const now = Date.now()
+    this.#restartTimes = this.#restartTimes.filter((time) => now - time < RESTART_WINDOW)
+    if (!this.#autoRestart || this.#restartTimes.length >= MAX_RESTARTS) {
+      this.#documents.clear()
+      return
+    }
+
+    this.#restartTimes.push(now)
+    this.#restarting = this.#restart().finally(() => {
+      this.#restarting = null
+    })
+  }
+
+  /**
+   * Start a new server and reopen the documents that were open
+   */
+  async #restart(): Promise<void> {
+    this.#diagnostics.clear()
+    try {
+      this.#spawn()
+      await this.#initialize()
+    } catch {
+      this.#process?.kill()
+      this.#process = null
+      this.#documents.clear()
+      return
+    }
+
+    for (const [uri, { languageId, version, text }] of this.#documents) {
+      this.notify('textDocument/didOpen', { textDocument: { uri, languageId, version, text } })
     }
   }
 
-  #findHeaderEnd(): number {
-    // Look for \r\n\r\n sequence in buffer
-    const CRLF = [13, 10, 13, 10] // \r\n\r\n
-    for (let i = 0; i <= this.#buffer.length - 4; i++) {
-      if (
-        this.#buffer[i] === CRLF[0] &&
-        this.#buffer[i + 1] === CRLF[1] &&
-        this.#buffer[i + 2] === CRLF[2] &&
-        this.#buffer[i + 3] === CRLF[3]
-      ) {
-        return i
+  #handleSocketClose(): void {
+    this.#socket = null
+    this.#socketWriter = null
+    this.#initialized = false
+    this.#activeProgress.clear()
+    this.#documents.clear()
+    this.#rejectPending(new Error('LSP server connection closed'))
+  }
+
+  #rejectPending(error: Error): void {
+    for (const id of [...this.#pendingRequests.keys()]) {
+      this.#takePending(id)?.reject(error)
+    }
+  }
+
+  async #handleServerRequest({ id, method, params }: JsonRpcRequest): Promise<void> {
+    const handler = this.#requestHandlers.get(method)
+    let response: JsonRpcResponse
+    if (handler) {
+      try {
+        response = { jsonrpc: '2.0', id, result: (await handler(params)) ?? null }
+      } catch (error) {
+        const reply =
+          error instanceof LspResponseError
+            ? error.response
+            : { code: INTERNAL_ERROR, message: error instanceof Error ? error.message : String(error) }
+        response = { jsonrpc: '2.0', id, error: reply }
       }
+    } else {
+      response = { jsonrpc: '2.0', id, error: { code: METHOD_NOT_FOUND, message: `Unhandled method: ${method}` } }
+    }
+
+    // The connection may have closed while the handler ran
+    if (this.#process || this.#socket) {
+      this.#send(response)
     }
-    return -1
   }
 
-  #handleMessage(message: JsonRpcResponse): void {
-    if ('id' in message && message.id !== undefined) {
-      const pending = this.#pendingRequests.get(message.id)
+  #handleMessage(message: JsonRpcMessage): void {
+    if (!('method' in message)) {
+      if (message.id === null) return
+      const pending = this.#takePending(message.id)
       if (pending) {
-        if (pending.timer) {
-          clearTimeout(pending.timer)
-        }
-        this.#pendingRequests.delete(message.id)
         if (message.error) {
-          pending.reject(new Error(`LSP Error: ${message.error.message}`))
+          pending.reject(new LspResponseError(message.error))
         } else {
           pending.resolve(message.result)
         }
       }
+      return
+    }
+
+    if ('id' in message) {
+      this.#handleServerRequest(message)
+      return
+    }
+
+    for (const handlers of [this.#notificationHandlers.get(message.method), this.#notificationHandlers.get('*')]) {
+      for (const handler of handlers ?? []) {
+        try {
+          handler(message.params, message.method)
+        } catch {
+          // A failing subscriber must not break message handling
+        }
+      }
     }
-    // Notifications and server requests are ignored for now
   }
 }
@@ -0,0 +1,122 @@
+#!/usr/bin/env bun
+/**
+ * Gather the source, docs, types and call sites of a symbol within a token budget
+ *
+ * Usage: bun lsp-context.ts <file#Symbol.path> [--budget <tokens>] [--timeout <ms>]
+ */
+
+import { parseArgs } from 'node:util'
+import { documentContentOptions, hasProposedContent, readDocumentText } from './document-content.ts'
+import { getInterruptSignal, handleInterrupts } from './interrupt-signal.ts'
+import { getLanguageId } from './language-id.ts'
+import { createLspClient } from './lsp-daemon.ts'
+import { AmbiguousSymbolError, SymbolNotFoundError } from './lsp-queries.ts'
+import { OUTPUT_FORMATS, parseOutputFormat, printQueryError, printResult } from './output-format.ts'
+import { resolveFilePath } from './resolve-file-path.ts'
+import { parseSymbolPath, resolveSymbolPosition } from './resolve-symbol-position.ts'
+import { buildSymbolContext, type SymbolContext } from './symbol-context.ts'
+
+/**
+ * Print the context pack of a symbol
+ *
+ * @param args - Command line arguments [file#Symbol.path]
+ */
+export const lspContext = async (args: string[]) => {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      budget: { type: 'string', default: '4000' },
+      timeout: { type: 'string', default: '30000' },
+      ...documentContentOptions,
+      server: { type: 'string' },
+      format: { type: 'string', default: 'json' },
+    },
+    allowPositionals: true,
+  })
+
+  const format = parseOutputFormat(values.format)
+  if (!format) {
+    console.error(`Error: format must be one of ${OUTPUT_FORMATS.join(', ')}`)
+    process.exit(1)
+  }
+
+  const [target] = positionals
+  const symbolPath = target ? parseSymbolPath(target) : undefined
+
+  if (!symbolPath) {
+    console.error('Usage: lsp-context <file#Symbol.path> [--budget <tokens>] [--timeout <ms>]')
+    console.error('  Symbol.path: Dotted symbol name, e.g. src/app.ts#ConfigManager.load')
+    console.error('  --budget: Approximate number of tokens to return (default: 4000)')
+    console.error('  --timeout: Maximum time to wait for the project to load (default: 30000)')
+    console.error('  --format: Output format: json (default), text, compact or markdown')
+    console.error('  --server: Language server preset or command (default: typescript-language-server)')
+    console.error('  --stdin, --content-file <path>: Query these contents instead of the file on disk')
+    process.exit(1)
+  }
+
+  const budget = parseInt(values.budget, 10)
+  const timeout = parseInt(values.timeout, 10)
+  if (Number.isNaN(budget) || Number.isNaN(timeout)) {
+    console.error('Error: budget and timeout must be numbers')
+    process.exit(1)
+  }
+
+  const absolutePath = resolveFilePath(symbolPath.filePath)
+  const uri = `file://${absolutePath}`
+  const rootUri = `file://${process.cwd()}`
+
+  const client = await createLspClient({
+    rootUri,
+    server: values.server,
+    signal: getInterruptSignal(),
+    daemon: !hasProposedContent(values),
+  })
+
+  try {
+    await client.start()
+
+    const { text, source } = await readDocumentText(absolutePath, values)
+    if (text === undefined) {
+      console.error(`Error: File not found: ${source}`)
+      await client.stop()
+      process.exit(1)
+    }
+
+    client.openDocument(uri, getLanguageId(absolutePath), 1, text)
+
+    let result: SymbolContext | undefined
+    try {
+      const candidates = await resolveSymbolPosition({ client, uri, symbol: symbolPath.symbol })
+      if (candidates.length === 0) throw new SymbolNotFoundError(symbolPath.symbol)
+      if (candidates.length > 1) throw new AmbiguousSymbolError(symbolPath.symbol, candidates)
+
+      const { line, character } = candidates[0]!
+      result = await buildSymbolContext({
+        client,
+        uri,
+        text,
+        position: { line, character },
+        budget,
+        timeout,
+      })
+    } finally {
+      client.closeDocument(uri)
+    }
+
+    await client.stop()
+
+    // The symbol path can name a position that no document symbol contains
+    if (!result) throw new SymbolNotFoundError(symbolPath.symbol)
+    await printResult(result, format)
+  } catch (error) {
+    await client.stop()
+    await printQueryError(error, format)
+    process.exit(1)
+  }
+}
+
+// Keep executable entry point for direct execution
+if (import.meta.main) {
+  handleInterrupts()
+  await lspContext(Bun.argv.slice(2))
+}
@@ -0,0 +1,566 @@
+#!/usr/bin/env bun
+/**
+ * Persistent LSP daemon that keeps one warm language server per workspace root
+ *
+ * The daemon owns an {@link LspClient} and proxies LSP messages from short-lived
+ * CLI invocations over a local Unix socket, so commands skip server startup and
+ * project loading. Server notifications are forwarded to every connection, except
+ * diagnostics, which only go to connections that have the document open.
+ *
+ * A document open in several connections has one text on the server: that of the
+ * connection that opened it last. When that connection closes it, the text of the
+ * previous one is put back. Proposed contents therefore do not go through the daemon;
+ * see {@link createLspClient}.
+ *
+ * Usage: bun lsp-daemon.ts <start|stop|status|serve> [--server <preset|command>]
+ */
+
+import { lstat, mkdir, rm } from 'node:fs/promises'
+import { tmpdir, userInfo } from 'node:os'
+import { dirname, join } from 'node:path'
+import { parseArgs } from 'node:util'
+import type { Socket } from 'bun'
+import {
+  createMessageReader,
+  createSocketWriter,
+  encodeMessage,
+  type JsonRpcMessage,
+  type JsonRpcRequest,
+  type JsonRpcResponse,
+} from './json-rpc.ts'
+import { applyContentChange, LspClient, LspResponseError, type TextDocumentContentChange } from './lsp-client.ts'
+import { DEFAULT_SERVER, resolveServer, SERVER_PRESETS, type ServerPreset } from './server-presets.ts'
+import { uriToPath } from './workspace-edit.ts'
+
+/** How long `lsp-daemon start` waits for the daemon socket to accept connections */
+const START_TIMEOUT = 30000
+const START_POLL_INTERVAL = 100
+
+/** JSON-RPC InternalError code */
+const INTERNAL_ERROR = -32603
+/** LSP RequestCancelled code */
+const REQUEST_CANCELLED = -32800
+
+type DaemonStatus = {
+  running: boolean
+  rootUri: string
+  socketPath: string
+  server?: string[]
+  pid?: number
+  uptime?: number
+  connections?: number
+  openDocuments?: number
+}
+
+type Connection = {
+  read: (chunk: Uint8Array) => void
+  writer: ReturnType<typeof createSocketWriter>
+  /** Open count per document URI for documents this connection opened */
+  documents: Map<string, number>
+  /** Text of each document this connection has open, with its own changes applied */
+  texts: Map<string, string>
+  /** Server requests relayed to this connection, by relayed request id */
+  relayed: Map<string, (response: JsonRpcResponse) => void>
+  /** Requests of this connection the server is working on, by the connection's request id */
+  inflight: Map<JsonRpcRequest['id'], AbortController>
+}
+
+type TextDocumentParams = {
+  textDocument: { uri: string; languageId?: string; version?: number; text?: string }
+  contentChanges?: TextDocumentContentChange[]
+}
+
+/**
+ * Get the directory holding the current user's daemon sockets
+ *
+ * @remarks
+ * `$XDG_RUNTIME_DIR` is private to the user. Without it, a per-user directory in the
+ * shared temp directory is used, which {@link ensureDaemonDirectory} creates with mode 0700.
+ */
+export const getDaemonDirectory = (): string => {
+  const runtimeDir = process.env.XDG_RUNTIME_DIR
+  return runtimeDir ? join(runtimeDir, 'development-skills') : join(tmpdir(), `development-skills-${userInfo().uid}`)
+}
+
+/**
+ * Get the Unix socket path of the daemon for a workspace root
+ *
+ * @param rootUri - Workspace root URI
+ * @param command - Command of the language server the daemon runs
+ * @returns Socket path in the daemon directory, unique per workspace root and server
+ */
+export const getDaemonSocketPath = (rootUri: string, command = SERVER_PRESETS[DEFAULT_SERVER]!.command): string =>
+  join(getDaemonDirectory(), `lsp-${Bun.hash(`${rootUri}\0${command.join(' ')}`).toString(36)}.sock`)
+
+/**
+ * Check that a path belongs to the current user and, for a directory, that only they can use it
+ *
+ * @remarks
+ * Another local user who creates the socket first could answer as the daemon, and the
+ * edits it returns are written to disk by `--apply`.
+ *
+ * @returns `false` if the path does not exist
+ * @throws When the path is owned by another user or is a directory others can access
+ */
+const checkOwnership = async (path: string, type: 'directory' | 'socket'): Promise<boolean> => {
+  const stats = await lstat(path).catch((error: NodeJS.ErrnoException) => {
+    if (error.code === 'ENOENT') return undefined
+    throw error
+  })
+  if (!stats) return false
+  if (stats.uid !== userInfo().uid) throw new Error(`${path} is owned by another user`)
+  if (type === 'socket' ? !stats.isSocket() : !stats.isDirectory()) throw new Error(`${path} is not a ${type}`)
+  if (type === 'directory' && (stats.mode & 0o077) !== 0) {
+    throw new Error(`${path} is accessible by other users, expected mode 0700`)
+  }
+  return true
+}
+
+/**
+ * Create the daemon directory with mode 0700, or check an existing one
+ *
+ * @throws When the directory is owned by another user or others can access it
+ */
+export const ensureDaemonDirectory = async (): Promise<string> => {
+  const directory = getDaemonDirectory()
+  await mkdir(directory, { recursive: true, mode: 0o700 })
+  await checkOwnership(directory, 'directory')
+  return directory
+}
+
+/**
+ * Check whether a daemon accepts connections on a socket path
+ *
+ * @remarks
+ * Sockets in a directory or file that is not the current user's own are never connected
+ * to. A socket file that refuses connections was left behind by a crashed daemon and is
+ * removed; other connection errors may be transient and leave it in place.
+ */
+export const isDaemonRunning = async (socketPath: string): Promise<boolean> => {
+  try {
+    if (!(await checkOwnership(dirname(socketPath), 'directory'))) return false
+    if (!(await checkOwnership(socketPath, 'socket'))) return false
+  } catch {
+    return false
+  }
+
+  try {
+    const socket = await Bun.connect({ unix: socketPath, socket: { data() {} } })
+    socket.end()
+    return true
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ECONNREFUSED') await rm(socketPath, { force: true })
+    return false
+  }
+}
+
+/**
+ * Create an LSP client for a workspace root
+ *
+ * @remarks
+ * Connects to the running daemon for `rootUri` and the selected server if there is
+ * one and falls back to spawning the server otherwise.
+ * Callers use the returned client exactly like a spawned one. Aborting `signal` cancels its
+ * pending requests; the CLI passes the signal aborted on Ctrl-C.
+ *
+ * Pass `daemon: false` to open proposed contents: in the daemon they would replace the
+ * text other connections query while they are open.
+ *
+ * @param options - Workspace root URI, the `--server` value if one was given, whether a
+ * spawned server restarts after crashing, the signal that cancels all requests, and
+ * whether a running daemon may be used (default: `true`)
+ * @returns Client that has not been started yet
+ */
+export const createLspClient = async ({
+  rootUri,
+  server,
+  autoRestart,
+  signal,
+  daemon = true,
+}: {
+  rootUri: string
+  server?: string
+  autoRestart?: boolean
+  signal?: AbortSignal
+  daemon?: boolean
+}): Promise<LspClient> => {
+  const preset = await resolveServer({ server, cwd: uriToPath(rootUri) })
+  const socketPath = getDaemonSocketPath(rootUri, preset.command)
+  if (daemon && (await isDaemonRunning(socketPath))) {
+    return new LspClient({ rootUri, socketPath, signal })
+  }
+  return new LspClient({ rootUri, ...preset, autoRestart, signal })
+}
+
+/**
+ * Run the daemon in the current process until it receives `daemon/shutdown` or a signal
+ */
+const serveDaemon = async (rootUri: string, preset: ServerPreset): Promise<void> => {
+  await ensureDaemonDirectory()
+  const socketPath = getDaemonSocketPath(rootUri, preset.command)
+  if (await isDaemonRunning(socketPath)) {
+    throw new Error(`LSP daemon already running for ${rootUri}`)
+  }
+
+  // Survive server crashes such as tsserver running out of memory
+  const client = new LspClient({ rootUri, ...preset, autoRestart: true })
+  await client.start()
+
+  const startedAt = Date.now()
+  const connections = new Set<Socket<Connection>>()
+  /** Connection of every open per document URI, in open order; the last one's text is on the server */
+  const documents = new Map<string, Connection[]>()
+  /** Connections waiting for `workspace/executeCommand`, most recent last */
+  const commandConnections: Socket<Connection>[] = []
+  let relayId = 0
+
+  const reply = (socket: Socket<Connection>, id: JsonRpcRequest['id'], result: unknown) => {
+    socket.data.writer.write(encodeMessage({ jsonrpc: '2.0', id, result }))
+  }
+
+  const replyError = (socket: Socket<Connection>, id: JsonRpcRequest['id'], error: unknown) => {
+    const response =
+      error instanceof LspResponseError
+        ? error.response
+        : { code: INTERNAL_ERROR, message: error instanceof Error ? error.message : String(error) }
+    socket.data.writer.write(encodeMessage({ jsonrpc: '2.0', id, error: response }))
+  }
+
+  /**
+   * Send a server request to a connection and wait for its response
+   */
+  const relayRequest = (socket: Socket<Connection>, method: string, params: unknown) =>
+    new Promise<JsonRpcResponse>((resolve) => {
+      relayId += 1
+      const id = `daemon-${relayId}`
+      socket.data.relayed.set(id, resolve)
+      socket.data.writer.write(encodeMessage({ jsonrpc: '2.0', id, method, params }))
+    })
+
+  // Edits from a command belong to the connection that executed it
+  client.onRequest('workspace/applyEdit', async (params) => {
+    const socket = commandConnections.at(-1)
+    if (!socket) return { applied: false, failureReason: 'No client is executing a command' }
+    const response = await relayRequest(socket, 'workspace/applyEdit', params)
+    if (response.error) throw new LspResponseError(response.error)
+    return response.result
+  })
+
+  client.onNotification('*', (params, method) => {
+    const message = encodeMessage({ jsonrpc: '2.0', method, params })
+    for (const socket of connections) {
+      // Diagnostics only go to connections that have the document open
+      if (method === 'textDocument/publishDiagnostics' && !socket.data.documents.has((params as { uri: string }).uri)) {
+        continue
+      }
+      socket.data.writer.write(message)
+    }
+  })
+
+  const status = (): DaemonStatus => ({
+    running: true,
+    rootUri,
+    socketPath,
+    server: preset.command,
+    pid: process.pid,
+    uptime: Date.now() - startedAt,
+    connections: connections.size,
+    openDocuments: documents.size,
+  })
+
+  /**
+   * Give the server the text of the connection that opened a document last
+   */
+  const syncDocument = (uri: string) => {
+    const text = documents.get(uri)?.at(-1)?.texts.get(uri)
+    // Versions are the daemon's own, since several connections may change a document
+    if (text !== undefined && text !== client.getDocumentText(uri)) client.changeDocument(uri, text)
+  }
+
+  const openDocument = (connection: Connection, params: TextDocumentParams) => {
+    const { uri, languageId = 'typescript', version = 1, text = '' } = params.textDocument
+    connection.documents.set(uri, (connection.documents.get(uri) ?? 0) + 1)
+    connection.texts.set(uri, text)
+
+    const owners = documents.get(uri)
+    if (!owners) {
+      documents.set(uri, [connection])
+      client.openDocument(uri, languageId, version, text)
+      return
+    }
+
+    // Already open for another connection: replace the content instead of opening twice
+    owners.push(connection)
+    syncDocument(uri)
+  }
+
+  const closeDocument = (connection: Connection, uri: string) => {
+    const owned = connection.documents.get(uri) ?? 0
+    if (owned === 0) return
+    if (owned === 1) {
+      connection.documents.delete(uri)
+      connection.texts.delete(uri)
+    } else {
+      connection.documents.set(uri, owned - 1)
+    }
+
+    const owners = documents.get(uri)
+    if (!owners) return
+    owners.splice(owners.lastIndexOf(connection), 1)
+    if (owners.length > 0) {
+      // Put back the text of the connection that opened it before
+      syncDocument(uri)
+      return
+    }
+    documents.delete(uri)
+    client.closeDocument(uri)
+  }
+
+  const changeDocument = (
+    connection: Connection,
+    { textDocument: { uri }, contentChanges = [] }: TextDocumentParams,
+  ) => {
+    const text = connection.texts.get(uri)
+    if (text === undefined) return
+    connection.texts.set(uri, contentChanges.reduce(applyContentChange, text))
+    if (documents.get(uri)?.at(-1) === connection) client.changeDocument(uri, contentChanges)
+  }
+
+  const shutdown = async () => {
+    server.stop(true)
+    await client.stop()
+    await rm(socketPath, { force: true })
+    process.exit(0)
+  }
+
+  const handleRequest = async (
+    socket: Socket<Connection>,
+    id: JsonRpcRequest['id'],
+    method: string,
+    params: unknown,
+  ) => {
+    switch (method) {
+      case 'initialize':
+        reply(socket, id, client.initializeResult)
+        return
+      case 'shutdown':
+        // Disconnecting clients must not stop the shared server
+        reply(socket, id, null)
+        return
+      case 'daemon/status':
+        reply(socket, id, status())
+        return
+      case 'daemon/documentVersion':
+        reply(socket, id, client.getDocumentVersion((params as TextDocumentParams).textDocument.uri) ?? null)
+        return
+      case 'daemon/shutdown':
+        reply(socket, id, null)
+        setTimeout(shutdown, 0)
+        return
+    }
+
+    const isCommand = method === 'workspace/executeCommand'
+    if (isCommand) commandConnections.push(socket)
+    const controller = new AbortController()
+    socket.data.inflight.set(id, controller)
+    try {
+      reply(socket, id, await client.request(method, params, { signal: controller.signal }))
+    } catch (error) {
+      replyError(socket, id, error)
+    } finally {
+      socket.data.inflight.delete(id)
+      if (isCommand) commandConnections.splice(commandConnections.indexOf(socket), 1)
+    }
+  }
+
+  const handleNotification = (connection: Connection, method: string, params: unknown) => {
+    switch (method) {
+      case 'initialized':
+      case 'exit':
+        return
+      case 'textDocument/didOpen':
+        openDocument(connection, params as TextDocumentParams)
+        return
+      case 'textDocument/didClose':
+        closeDocument(connection, (params as TextDocumentParams).textDocument.uri)
+        return
+      case 'textDocument/didChange':
+        changeDocument(connection, params as TextDocumentParams)
+        return
+      case '$/cancelRequest':
+        // Request ids are the connection's own, so the client cancels its request for it
+        connection.inflight
+          .get((params as { id: JsonRpcRequest['id'] }).id)
+          ?.abort(new LspResponseError({ code: REQUEST_CANCELLED, message: 'Request cancelled' }))
+        return
+      default:
+        client.notify(method, params)
+    }
+  }
+
+  const handleMessage = (socket: Socket<Connection>, message: JsonRpcMessage) => {
+    if (!('method' in message)) {
+      // Response to a relayed server request
+      const id = String(message.id)
+      socket.data.relayed.get(id)?.(message)
+      socket.data.relayed.delete(id)
+      return
+    }
+    if ('id' in message) {
+      handleRequest(socket, message.id, message.method, message.params)
+    } else {
+      handleNotification(socket.data, message.method, message.params)
+    }
+  }
+
+  const server = Bun.listen<Connection>({
+    unix: socketPath,
+    socket: {
+      open(socket) {
+        socket.data = {
+          read: createMessageReader((message) => handleMessage(socket, message)),
+          writer: createSocketWriter(socket),
+          documents: new Map(),
+          texts: new Map(),
+          relayed: new Map(),
+          inflight: new Map(),
+        }
+        connections.add(socket)
+      },
+      data(socket, chunk) {
+        socket.data.read(chunk)
+      },
+      drain(socket) {
+        socket.data.writer.flush()
+      },
+      close(socket) {
+        connections.delete(socket)
+        // Nobody is waiting for the results anymore
+        for (const controller of socket.data.inflight.values()) controller.abort()
+        for (const [id, resolve] of socket.data.relayed) {
+          resolve({ jsonrpc: '2.0', id, error: { code: INTERNAL_ERROR, message: 'Client disconnected' } })
+        }
+        // Release documents the client did not close before disconnecting
+        for (const [uri, owned] of [...socket.data.documents]) {
+          for (let i = 0; i < owned; i++) closeDocument(socket.data, uri)
+        }
+      },
+    },
+  })
+
+  process.on('SIGINT', shutdown)
+  process.on('SIGTERM', shutdown)
+}
+
+/**
+ * Query the daemon for a workspace root over its socket
+ */
+const requestDaemon = async <T>({
+  rootUri,
+  socketPath,
+  method,
+}: {
+  rootUri: string
+  socketPath: string
+  method: string
+}): Promise<T> => {
+  const client = new LspClient({ rootUri, socketPath })
+  await client.start()
+  try {
+    return await client.request<T>(method, null)
+  } finally {
+    await client.stop()
+  }
+}
+
+/**
+ * Start the daemon as a background process and wait until it accepts connections
+ */
+const startDaemon = async (rootUri: string, socketPath: string, server?: string): Promise<DaemonStatus> => {
+  // Fail here rather than in the detached process, whose errors are not shown
+  await ensureDaemonDirectory()
+  const daemon = Bun.spawn(['bun', import.meta.path, 'serve', ...(server === undefined ? [] : ['--server', server])], {
+    cwd: process.cwd(),
+    stdin: 'ignore',
+    stdout: 'ignore',
+    stderr: 'ignore',
+  })
+  daemon.unref()
+
+  const deadline = Date.now() + START_TIMEOUT
+  while (Date.now() < deadline) {
+    if (daemon.exitCode !== null) {
+      throw new Error(`LSP daemon exited with code ${daemon.exitCode}`)
+    }
+    if (await isDaemonRunning(socketPath)) {
+      return requestDaemon<DaemonStatus>({ rootUri, socketPath, method: 'daemon/status' })
+    }
+    await Bun.sleep(START_POLL_INTERVAL)
+  }
+
+  daemon.kill()
+  throw new Error(`LSP daemon did not start within ${START_TIMEOUT}ms`)
+}
+
+/**
+ * Manage the persistent LSP daemon for the current workspace
+ *
+ * @param args - Command line arguments [start|stop|status|serve]
+ */
+export const lspDaemon = async (args: string[]) => {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      server: { type: 'string' },
+    },
+    allowPositionals: true,
+  })
+
+  const [action] = positionals
+  const rootUri = `file://${process.cwd()}`
+  const preset = await resolveServer({ server: values.server, cwd: process.cwd() })
+  const socketPath = getDaemonSocketPath(rootUri, preset.command)
+
+  switch (action) {
+    case 'start': {
+      if (await isDaemonRunning(socketPath)) {
+        console.log(JSON.stringify(await requestDaemon({ rootUri, socketPath, method: 'daemon/status' }), null, 2))
+        return
+      }
+      console.log(JSON.stringify(await startDaemon(rootUri, socketPath, values.server), null, 2))
+      return
+    }
+    case 'stop': {
+      if (await isDaemonRunning(socketPath)) {
+        await requestDaemon({ rootUri, socketPath, method: 'daemon/shutdown' })
+        console.log(JSON.stringify({ stopped: true, rootUri }, null, 2))
+      } else {
+        console.log(JSON.stringify({ stopped: false, rootUri }, null, 2))
+      }
+      return
+    }
+    case 'status': {
+      const status: DaemonStatus = (await isDaemonRunning(socketPath))
+        ? await requestDaemon({ rootUri, socketPath, method: 'daemon/status' })
+        : { running: false, rootUri, socketPath, server: preset.command }
+      console.log(JSON.stringify(status, null, 2))
+      return
+    }
+    case 'serve':
+      await serveDaemon(rootUri, preset)
+      return
+    default:
+      console.error('Usage: lsp-daemon <start|stop|status|serve> [--server <preset|command>]')
+      console.error('  start: Start a background daemon for the current directory')
+      console.error('  stop: Stop the daemon')
+      console.error('  status: Show daemon status')
+      console.error('  serve: Run the daemon in the foreground')
+      console.error('  --server: Language server preset or command (default: typescript-language-server)')
+      process.exit(1)
+  }
+}
+
+// Keep executable entry point for direct execution
+if (import.meta.main) {
+  await lspDaemon(Bun.argv.slice(2))
+}
@@ -0,0 +1,24 @@
+#!/usr/bin/env bun
+/**
+ * Go to the definition of the symbol at a position
+ *
+ * Usage: bun lsp-definition.ts <file> <line> <character>
+ *        bun lsp-definition.ts <file#Symbol.path>
+ */
+
+import { handleInterrupts } from './interrupt-signal.ts'
+import { findDefinition } from './lsp-queries.ts'
+import { createNavigationCommand } from './navigation-command.ts'
+
+/**
+ * Find where the symbol at a cursor position is defined
+ *
+ * @param args - Command line arguments [file, line, character] or [file#Symbol.path]
+ */
+export const lspDef = createNavigationCommand({ name: 'lsp-def', find: findDefinition })
+
+// Keep executable entry point for direct execution
+if (import.meta.main) {
+  handleInterrupts()
+  await lspDef(Bun.argv.slice(2))
+}
@@ -0,0 +1,145 @@
+#!/usr/bin/env bun
+/**
+ * Report type errors and other diagnostics for TypeScript/JavaScript files
+ *
+ * Usage: bun lsp-diagnostics.ts <file|glob...> [--timeout <ms>]
+ */
+
+import { relative } from 'node:path'
+import { parseArgs } from 'node:util'
+import { documentContentOptions, hasProposedContent, readDocumentText } from './document-content.ts'
+import { expandFilePatterns } from './expand-file-patterns.ts'
+import { getInterruptSignal, handleInterrupts } from './interrupt-signal.ts'
+import { getLanguageId } from './language-id.ts'
+import { createLspClient } from './lsp-daemon.ts'
+import type { Diagnostic } from './lsp-types.ts'
+import { OUTPUT_FORMATS, parseOutputFormat, printResult } from './output-format.ts'
+
+type DiagnosticResult = {
+  file: string
+  severity: string
+  code?: number | string
+  source?: string
+  range: Diagnostic['range']
+  message: string
+}
+
+const severityNames: Record<number, string> = {
+  1: 'error',
+  2: 'warning',
+  3: 'information',
+  4: 'hint',
+}
+
+/**
+ * Report diagnostics for TypeScript/JavaScript files
+ *
+ * @param args - Command line arguments [files or globs...]
+ */
+export const lspDiagnostics = async (args: string[]) => {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      timeout: { type: 'string', default: '30000' },
+      ...documentContentOptions,
+      server: { type: 'string' },
+      format: { type: 'string', default: 'json' },
+    },
+    allowPositionals: true,
+  })
+
+  const format = parseOutputFormat(values.format)
+  if (!format) {
+    console.error(`Error: format must be one of ${OUTPUT_FORMATS.join(', ')}`)
+    process.exit(1)
+  }
+
+  if (positionals.length === 0) {
+    console.error('Usage: lsp-diagnostics <file|glob...> [--timeout <ms>]')
+    console.error('  file: Path to TypeScript/JavaScript file, or a glob such as "src/**/*.ts"')
+    console.error('  --timeout: Maximum time to wait for diagnostics (default: 30000)')
+    console.error('  --format: Output format: json (default), text, compact or markdown')
+    console.error('  --server: Language server preset or command (default: typescript-language-server)')
+    console.error('  --stdin, --content-file <path>: Check these contents instead of the file on disk (one file only)')
+    process.exit(1)
+  }
+
+  const timeout = parseInt(values.timeout, 10)
+  if (Number.isNaN(timeout)) {
+    console.error('Error: timeout must be a number')
+    process.exit(1)
+  }
+
+  const files = await expandFilePatterns(positionals)
+  if (files.length === 0) {
+    console.error(`Error: No files match: ${positionals.join(' ')}`)
+    process.exit(1)
+  }
+  if (files.length > 1 && hasProposedContent(values)) {
+    console.error('Error: --stdin and --content-file need a single file')
+    process.exit(1)
+  }
+
+  const cwd = process.cwd()
+  const rootUri = `file://${cwd}`
+
+  const client = await createLspClient({
+    rootUri,
+    server: values.server,
+    signal: getInterruptSignal(),
+    daemon: !hasProposedContent(values),
+  })
+
+  try {
+    await client.start()
+
+    const uris: string[] = []
+    for (const absolutePath of files) {
+      const { text, source } = await readDocumentText(absolutePath, values)
+      if (text === undefined) {
+        console.error(`Error: File not found: ${source}`)
+        await client.stop()
+        process.exit(1)
+      }
+
+      const uri = `file://${absolutePath}`
+      client.openDocument(uri, getLanguageId(absolutePath), 1, text)
+      uris.push(uri)
+    }
+
+    const settled = await client.waitForDiagnostics(uris, { timeout })
+    if (!settled) {
+      console.error(`Warning: Diagnostics did not settle within ${timeout}ms, results may be incomplete`)
+    }
+
+    const result: DiagnosticResult[] = []
+    for (const [index, uri] of uris.entries()) {
+      const diagnostics = client.getDiagnostics(uri) ?? []
+      for (const diagnostic of diagnostics) {
+        result.push({
+          file: relative(cwd, files[index]!),
+          severity: severityNames[diagnostic.severity ?? 1] ?? `unknown(${diagnostic.severity})`,
+          code: diagnostic.code,
+          source: diagnostic.source,
+          range: diagnostic.range,
+          message: diagnostic.message,
+        })
+      }
+      client.closeDocument(uri)
+    }
+
+    await client.stop()
+
+    await printResult(result, format)
+  } catch (error) {
+    console.error('Error:', error)
+    await client.stop()
+    process.exit(1)
+  }
+}
+
+// Keep executable entry point for direct execution
+if (import.meta.main) {
+  handleInterrupts()
+  await lspDiagnostics(Bun.argv.slice(2))
+}
@@ -2,11 +2,16 @@
 /**
  * Search for TypeScript symbols across the workspace by name
  *
- * Usage: bun lsp-find.ts <query> <context-file>
+ * Usage: bun lsp-find.ts <query> <context-file> [--timeout <ms>]
+ *
+ * Waits for the project of the context file to load first. The output states
+ * whether the search may have missed symbols because loading did not finish in time.
  */
 
 import { parseArgs } from 'node:util'
-import { LspClient } from './lsp-client.ts'
+import { getInterruptSignal, handleInterrupts } from './interrupt-signal.ts'
+import { FileNotFoundError, findSymbols } from './lsp-queries.ts'
+import { OUTPUT_FORMATS, parseOutputFormat, printResult } from './output-format.ts'
 import { resolveFilePath } from './resolve-file-path.ts'
 
 /**
@@ -15,11 +20,22 @@ import { resolveFilePath } from './resolve-file-path.ts'
  * @param args - Command line arguments [query, context-file]
  */
 export const lspFind = async (args: string[]) => {
-  const { positionals } = parseArgs({
+  const { values, positionals } = parseArgs({
     args,
+    options: {
+      timeout: { type: 'string', default: '30000' },
+      server: { type: 'string' },
+      format: { type: 'string', default: 'json' },
+    },
     allowPositionals: true,
   })
 
+  const format = parseOutputFormat(values.format)
+  if (!format) {
+    console.error(`Error: format must be one of ${OUTPUT_FORMATS.join(', ')}`)
+    process.exit(1)
+  }
+
   const [query, filePath] = positionals
 
   if (!query || !filePath) {
@@ -31,51 +47,39 @@ export const lspFind = async (args: string[]) => {
     console.error('  - Use lsp-find <query> <context-file> for symbol search')
     console.error('')
     console.error('Provide any .ts file as context-file (e.g., src/app.ts)')
+    console.error('  --timeout: Maximum time to wait for the project to load (default: 30000)')
+    console.error('  --format: Output format: json (default), text, compact or markdown')
+    console.error('  --server: Language server preset or command (default: typescript-language-server)')
     process.exit(1)
   }
 
-  const rootUri = `file://${process.cwd()}`
-  const client = new LspClient({ rootUri })
+  const timeout = parseInt(values.timeout, 10)
+  if (Number.isNaN(timeout)) {
+    console.error('Error: timeout must be a number')
+    process.exit(1)
+  }
 
   try {
-    await client.start()
-
-    const contextFile = resolveFilePath(filePath)
-
-    const file = Bun.file(contextFile)
-    if (!(await file.exists())) {
-      console.error(`Error: Context file not found: ${contextFile}`)
+    const result = await findSymbols(query, {
+      file: resolveFilePath(filePath),
+      timeout,
+      server: values.server,
+      signal: getInterruptSignal(),
+    })
+    await printResult(result, format)
+  } catch (error) {
+    if (error instanceof FileNotFoundError) {
+      console.error(`Error: Context file not found: ${error.path}`)
       console.error('Workspace symbol search requires at least one open document.')
-      await client.stop()
-      process.exit(1)
+    } else {
+      console.error('Error:', error)
     }
-
-    const text = await file.text()
-    const uri = `file://${contextFile}`
-    const languageId = contextFile.endsWith('.tsx')
-      ? 'typescriptreact'
-      : contextFile.endsWith('.ts')
-        ? 'typescript'
-        : contextFile.endsWith('.jsx')
-          ? 'javascriptreact'
-          : 'javascript'
-
-    client.openDocument(uri, languageId, 1, text)
-
-    const result = await client.workspaceSymbols(query)
-
-    client.closeDocument(uri)
-    await client.stop()
-
-    console.log(JSON.stringify(result, null, 2))
-  } catch (error) {
-    console.error('Error:', error)
-    await client.stop()
     process.exit(1)
   }
 }
 
 // Keep executable entry point for direct execution
 if (import.meta.main) {
+  handleInterrupts()
   await lspFind(Bun.argv.slice(2))
 }
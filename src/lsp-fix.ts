@@ -0,0 +1,226 @@
+#!/usr/bin/env bun
+/**
+ * List and apply code actions (quick fixes, organize imports, fix all)
+ *
+ * Lists the actions for a file's diagnostics, or for a range. Selecting an action
+ * prints its edit as a unified diff, or writes it to disk with `--apply`.
+ *
+ * Usage: bun lsp-fix.ts <file> [--range <line:char[-line:char]>] [--kind <kind>] [--index <n>] [--apply]
+ */
+
+import { relative } from 'node:path'
+import { parseArgs } from 'node:util'
+import { collectCodeActions } from './code-actions.ts'
+import { documentContentOptions, hasProposedContent, readDocumentText } from './document-content.ts'
+import { getInterruptSignal, handleInterrupts } from './interrupt-signal.ts'
+import { getLanguageId } from './language-id.ts'
+import { createLspClient } from './lsp-daemon.ts'
+import type { CodeAction, Range, WorkspaceEdit } from './lsp-types.ts'
+import { OUTPUT_FORMATS, parseOutputFormat, printResult } from './output-format.ts'
+import { resolveFilePath } from './resolve-file-path.ts'
+import { applyFileChanges, createUnifiedDiff, type FileChange, planWorkspaceEdit } from './workspace-edit.ts'
+
+/**
+ * Parse a `line:char` position or `line:char-line:char` range
+ */
+const parseRange = (value: string): Range | undefined => {
+  const match = value.match(/^(\d+):(\d+)(?:-(\d+):(\d+))?$/)
+  if (!match) return undefined
+  const start = { line: Number(match[1]), character: Number(match[2]) }
+  const end = match[3] ? { line: Number(match[3]), character: Number(match[4]) } : start
+  return { start, end }
+}
+
+/**
+ * List or apply code actions for a TypeScript/JavaScript file
+ *
+ * @param args - Command line arguments [file]
+ */
+export const lspFix = async (args: string[]) => {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      range: { type: 'string' },
+      kind: { type: 'string' },
+      index: { type: 'string' },
+      apply: { type: 'boolean', default: false },
+      timeout: { type: 'string', default: '30000' },
+      ...documentContentOptions,
+      server: { type: 'string' },
+      format: { type: 'string', default: 'json' },
+    },
+    allowPositionals: true,
+  })
+
+  const format = parseOutputFormat(values.format)
+  if (!format) {
+    console.error(`Error: format must be one of ${OUTPUT_FORMATS.join(', ')}`)
+    process.exit(1)
+  }
+
+  // The edit is computed against the proposed contents, so applying it would write them too
+  if (values.apply && hasProposedContent(values)) {
+    console.error('Error: --apply cannot be combined with --stdin or --content-file')
+    process.exit(1)
+  }
+
+  const [filePath] = positionals
+
+  if (!filePath) {
+    console.error('Usage: lsp-fix <file> [--range <line:char[-line:char]>] [--kind <kind>] [--index <n>] [--apply]')
+    console.error('  file: Path to TypeScript/JavaScript file')
+    console.error("  --range: Only actions for this range (default: the file's diagnostics and source actions)")
+    console.error('  --kind: Only actions of this kind, e.g. quickfix, source.organizeImports, source.fixAll')
+    console.error('  --index: Select an action by its index in the list')
+    console.error('  --apply: Write the selected action (default: preferred or first) to disk')
+    console.error('  --timeout: Maximum time to wait for diagnostics (default: 30000)')
+    console.error('  --format: Output format: json (default), text, compact or markdown')
+    console.error('  --server: Language server preset or command (default: typescript-language-server)')
+    console.error('  --stdin, --content-file <path>: Preview edits of these contents instead of the file on disk')
+    process.exit(1)
+  }
+
+  const range = values.range ? parseRange(values.range) : undefined
+  if (values.range && !range) {
+    console.error('Error: range must be line:char or line:char-line:char')
+    process.exit(1)
+  }
+
+  const index = values.index === undefined ? undefined : parseInt(values.index, 10)
+  const timeout = parseInt(values.timeout, 10)
+  if (Number.isNaN(index) || Number.isNaN(timeout)) {
+    console.error('Error: index and timeout must be numbers')
+    process.exit(1)
+  }
+
+  const absolutePath = resolveFilePath(filePath)
+  const uri = `file://${absolutePath}`
+  const cwd = process.cwd()
+  const rootUri = `file://${cwd}`
+
+  const client = await createLspClient({
+    rootUri,
+    server: values.server,
+    signal: getInterruptSignal(),
+    daemon: !hasProposedContent(values),
+  })
+
+  try {
+    await client.start()
+
+    const { text, source } = await readDocumentText(absolutePath, values)
+    if (text === undefined) {
+      console.error(`Error: File not found: ${source}`)
+      await client.stop()
+      process.exit(1)
+    }
+
+    client.openDocument(uri, getLanguageId(absolutePath), 1, text)
+    // Through the daemon, another connection may have the document open at a later version
+    const version = await client.getServerDocumentVersion(uri)
+
+    const settled = await client.waitForDiagnostics([uri], { timeout })
+    if (!settled) {
+      console.error(`Warning: Diagnostics did not settle within ${timeout}ms, quick fixes may be missing`)
+    }
+
+    const diagnostics = client.getDiagnostics(uri) ?? []
+    const actions = await collectCodeActions({ client, uri, text, diagnostics, range, kind: values.kind })
+
+    // Without a selection, list what is available
+    if (index === undefined && !values.apply) {
+      client.closeDocument(uri)
+      await client.stop()
+      await printResult(
+        actions.map((action, i) => ({
+          index: i,
+          title: action.title,
+          kind: action.kind,
+          isPreferred: action.isPreferred,
+          diagnostics: action.diagnostics?.map((diagnostic) => diagnostic.message),
+        })),
+        format,
+      )
+      return
+    }
+
+    let action: CodeAction | undefined =
+      index === undefined ? (actions.find((candidate) => candidate.isPreferred) ?? actions[0]) : actions[index]
+    if (!action) {
+      client.closeDocument(uri)
+      await client.stop()
+      console.error(
+        index === undefined ? 'Error: No code actions available' : `Error: No code action at index ${index}`,
+      )
+      process.exit(1)
+    }
+
+    // Servers may compute edits lazily, returning only `data` until the action is resolved
+    if (!action.edit && action.data !== undefined) {
+      action = await client.resolveCodeAction(action)
+    }
+
+    // The server computed edits against the text sent with didOpen
+    const snapshots = new Map([[absolutePath, text]])
+    const versions = new Map(version === undefined ? [] : [[absolutePath, version]])
+    const changes: FileChange[] = []
+
+    if (action.edit) {
+      changes.push(...(await planWorkspaceEdit(action.edit, { snapshots, versions })))
+      if (values.apply) await applyFileChanges(changes)
+    } else if (action.command) {
+      // Servers often attach a command that repeats the edit, so commands only run for actions without one.
+      // The command sends its edits back as `workspace/applyEdit` requests.
+      let failure: unknown
+      const unsubscribe = client.onRequest('workspace/applyEdit', async (params) => {
+        try {
+          const planned = await planWorkspaceEdit((params as { edit: WorkspaceEdit }).edit, { snapshots, versions })
+          changes.push(...planned)
+          if (!values.apply) return { applied: false, failureReason: 'Preview only' }
+          await applyFileChanges(planned)
+          // Later edits from the same command build on this one
+          for (const change of planned) {
+            if (change.after === null) snapshots.delete(change.path)
+            else snapshots.set(change.path, change.after)
+          }
+          return { applied: true }
+        } catch (error) {
+          failure = error
+          return { applied: false, failureReason: error instanceof Error ? error.message : String(error) }
+        }
+      })
+      // After extract refactors, typescript-language-server asks the editor to start renaming the new symbol
+      const unsubscribeRename = client.onRequest('_typescript.rename', () => null)
+      await client.executeCommand(action.command.command, action.command.arguments)
+      unsubscribe()
+      unsubscribeRename()
+      if (failure) throw failure
+    } else {
+      client.closeDocument(uri)
+      await client.stop()
+      console.error(`Error: Code action has nothing to apply: ${action.title}`)
+      process.exit(1)
+    }
+
+    client.closeDocument(uri)
+    await client.stop()
+
+    if (values.apply) {
+      // A command can edit the same file more than once
+      const files = [...new Set(changes.map((change) => relative(cwd, change.path)))]
+      await printResult({ applied: true, action: action.title, files }, format)
+    } else {
+      process.stdout.write(changes.map((change) => createUnifiedDiff(change, cwd)).join(''))
+    }
+  } catch (error) {
+    console.error('Error:', error)
+    await client.stop()
+    process.exit(1)
+  }
+}
+
+// Keep executable entry point for direct execution
+if (import.meta.main) {
+  handleInterrupts()
+  await lspFix(Bun.argv.slice(2))
+}
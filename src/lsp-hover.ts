@@ -3,85 +3,90 @@
  * Get type information at a position in a TypeScript/JavaScript file
  *
  * Usage: bun lsp-hover.ts <file> <line> <character>
+ *        bun lsp-hover.ts <file#Symbol.path>
  */
 
 import { parseArgs } from 'node:util'
-import { LspClient } from './lsp-client.ts'
+import { documentContentOptions, hasProposedContent, readDocumentText } from './document-content.ts'
+import { getInterruptSignal, handleInterrupts } from './interrupt-signal.ts'
+import { hover } from './lsp-queries.ts'
+import { OUTPUT_FORMATS, parseOutputFormat, printQueryError, printResult } from './output-format.ts'
 import { resolveFilePath } from './resolve-file-path.ts'
+import { parseSymbolPath } from './resolve-symbol-position.ts'
 
 /**
  * Get type information at a cursor position in TypeScript/JavaScript files
  *
- * @param args - Command line arguments [file, line, character]
+ * @param args - Command line arguments [file, line, character] or [file#Symbol.path]
  */
 export const lspHover = async (args: string[]) => {
-  const { positionals } = parseArgs({
+  const { values, positionals } = parseArgs({
     args,
+    options: {
+      ...documentContentOptions,
+      server: { type: 'string' },
+      format: { type: 'string', default: 'json' },
+    },
     allowPositionals: true,
   })
 
-  const [filePath, lineStr, charStr] = positionals
+  const format = parseOutputFormat(values.format)
+  if (!format) {
+    console.error(`Error: format must be one of ${OUTPUT_FORMATS.join(', ')}`)
+    process.exit(1)
+  }
+
+  const [target, lineStr, charStr] = positionals
+  const symbolPath = target ? parseSymbolPath(target) : undefined
 
-  if (!filePath || !lineStr || !charStr) {
+  if (!target || (!symbolPath && (!lineStr || !charStr))) {
     console.error('Usage: lsp-hover <file> <line> <character>')
+    console.error('       lsp-hover <file#Symbol.path>')
     console.error('  file: Path to TypeScript/JavaScript file')
     console.error('  line: Line number (0-indexed)')
     console.error('  character: Character position (0-indexed)')
+    console.error('  Symbol.path: Dotted symbol name, e.g. src/app.ts#ConfigManager.load')
+    console.error('  --format: Output format: json (default), text, compact or markdown')
+    console.error('  --server: Language server preset or command (default: typescript-language-server)')
+    console.error('  --stdin, --content-file <path>: Query these contents instead of the file on disk')
     process.exit(1)
   }
 
-  const line = parseInt(lineStr, 10)
-  const character = parseInt(charStr, 10)
+  const line = parseInt(lineStr ?? '', 10)
+  const character = parseInt(charStr ?? '', 10)
 
-  if (Number.isNaN(line) || Number.isNaN(character)) {
+  if (!symbolPath && (Number.isNaN(line) || Number.isNaN(character))) {
     console.error('Error: line and character must be numbers')
     process.exit(1)
   }
 
-  const absolutePath = resolveFilePath(filePath)
-  const uri = `file://${absolutePath}`
-  const rootUri = `file://${process.cwd()}`
-
-  const client = new LspClient({ rootUri })
+  const absolutePath = resolveFilePath(symbolPath?.filePath ?? target)
+  const { text, source } = await readDocumentText(absolutePath, values)
+  if (text === undefined) {
+    console.error(`Error: File not found: ${source}`)
+    process.exit(1)
+  }
 
   try {
-    await client.start()
-
-    const file = Bun.file(absolutePath)
-    if (!(await file.exists())) {
-      console.error(`Error: File not found: ${absolutePath}`)
-      process.exit(1)
-    }
-
-    const text = await file.text()
-    const languageId = absolutePath.endsWith('.tsx')
-      ? 'typescriptreact'
-      : absolutePath.endsWith('.ts')
-        ? 'typescript'
-        : absolutePath.endsWith('.jsx')
-          ? 'javascriptreact'
-          : 'javascript'
-
-    client.openDocument(uri, languageId, 1, text)
-
-    const result = await client.hover(uri, line, character)
-
-    client.closeDocument(uri)
-    await client.stop()
+    const result = await hover(absolutePath, symbolPath ? { symbol: symbolPath.symbol } : { line, character }, {
+      server: values.server,
+      text: hasProposedContent(values) ? text : undefined,
+      signal: getInterruptSignal(),
+    })
 
     if (result) {
-      console.log(JSON.stringify(result, null, 2))
+      await printResult(result, format)
     } else {
       console.log('null')
     }
   } catch (error) {
-    console.error('Error:', error)
-    await client.stop()
+    await printQueryError(error, format)
     process.exit(1)
   }
 }
 
 // Keep executable entry point for direct execution
 if (import.meta.main) {
+  handleInterrupts()
   await lspHover(Bun.argv.slice(2))
 }
@@ -0,0 +1,130 @@
+#!/usr/bin/env bun
+/**
+ * List the code affected by the changes in the working tree
+ *
+ * Usage: bun lsp-impact.ts [--base <ref>] [--timeout <ms>]
+ */
+
+import { join } from 'node:path'
+import { parseArgs } from 'node:util'
+import { analyzeChangeImpact, type FileChanges, parseGitDiff } from './change-impact.ts'
+import { getInterruptSignal, handleInterrupts } from './interrupt-signal.ts'
+import { createLspClient } from './lsp-daemon.ts'
+import { OUTPUT_FORMATS, parseOutputFormat, printResult } from './output-format.ts'
+
+/** Extensions of files the language server can map to symbols */
+const SOURCE_FILE = /\.[cm]?[jt]sx?$/
+
+/**
+ * Report the symbols changed since a git ref and the symbols that use them
+ *
+ * @remarks
+ * The working tree is compared with the merge base of the ref and `HEAD`, as in
+ * `git diff <ref>...`, so changes made on the ref after the branch point are not
+ * reported. Untracked files that git does not ignore count as changed throughout.
+ *
+ * @param args - Command line arguments
+ */
+export const lspImpact = async (args: string[]) => {
+  const { values } = parseArgs({
+    args,
+    options: {
+      base: { type: 'string', default: 'HEAD' },
+      timeout: { type: 'string', default: '30000' },
+      help: { type: 'boolean', short: 'h' },
+      server: { type: 'string' },
+      format: { type: 'string', default: 'json' },
+    },
+  })
+
+  const format = parseOutputFormat(values.format)
+  if (!format) {
+    console.error(`Error: format must be one of ${OUTPUT_FORMATS.join(', ')}`)
+    process.exit(1)
+  }
+
+  if (values.help) {
+    console.log('Usage: lsp-impact [--base <ref>] [--timeout <ms>]')
+    console.log('  --base: Compare the working tree with its merge base with this commit or branch (default: HEAD)')
+    console.log('  --timeout: Maximum time to wait for the project to load (default: 30000)')
+    console.log('  --format: Output format: json (default), text, compact or markdown')
+    console.log('  --server: Language server preset or command (default: typescript-language-server)')
+    process.exit(0)
+  }
+
+  const timeout = parseInt(values.timeout, 10)
+  if (Number.isNaN(timeout)) {
+    console.error('Error: timeout must be a number')
+    process.exit(1)
+  }
+
+  const cwd = process.cwd()
+  const root = await Bun.$`git rev-parse --show-toplevel`.cwd(cwd).quiet().nothrow()
+  if (root.exitCode !== 0) {
+    console.error('Error: Not a git repository')
+    process.exit(1)
+  }
+
+  const repositoryRoot = root.stdout.toString().trim()
+
+  const mergeBase = await Bun.$`git merge-base ${values.base} HEAD`.cwd(cwd).quiet().nothrow()
+  if (mergeBase.exitCode !== 0) {
+    console.error(`Error: No merge base of ${values.base} and HEAD: ${mergeBase.stderr.toString().trim()}`)
+    process.exit(1)
+  }
+  const since = mergeBase.stdout.toString().trim()
+
+  // Fixed prefixes, since diff.noprefix or diff.mnemonicPrefix would change the paths
+  const diff =
+    await Bun.$`git -c core.quotePath=false diff --unified=0 --no-color --no-ext-diff --src-prefix=a/ --dst-prefix=b/ ${since} --`
+      .cwd(repositoryRoot)
+      .quiet()
+      .nothrow()
+  const untracked = await Bun.$`git ls-files --others --exclude-standard -z`.cwd(repositoryRoot).quiet().nothrow()
+  if (diff.exitCode !== 0 || untracked.exitCode !== 0) {
+    console.error(`Error: git failed: ${(diff.exitCode !== 0 ? diff : untracked).stderr.toString().trim()}`)
+    process.exit(1)
+  }
+
+  const added: FileChanges[] = []
+  for (const path of untracked.stdout.toString().split('\0')) {
+    if (!SOURCE_FILE.test(path)) continue
+    const lineCount = (await Bun.file(join(repositoryRoot, path)).text()).split('\n').length
+    added.push({ path, lines: [{ start: 0, end: lineCount - 1 }] })
+  }
+
+  const changes = [...parseGitDiff(diff.stdout.toString()), ...added]
+    .filter((change) => SOURCE_FILE.test(change.path))
+    .map((change) => ({ ...change, path: join(repositoryRoot, change.path) }))
+
+  if (changes.length === 0) {
+    await printResult({ base: values.base, complete: true, changed: [], affected: [], files: [] }, format)
+    return
+  }
+
+  const client = await createLspClient({
+    rootUri: `file://${cwd}`,
+    server: values.server,
+    signal: getInterruptSignal(),
+  })
+
+  try {
+    await client.start()
+
+    const result = await analyzeChangeImpact({ client, changes, cwd, timeout })
+
+    await client.stop()
+
+    await printResult({ base: values.base, ...result }, format)
+  } catch (error) {
+    console.error('Error:', error)
+    await client.stop()
+    process.exit(1)
+  }
+}
+
+// Keep executable entry point for direct execution
+if (import.meta.main) {
+  handleInterrupts()
+  await lspImpact(Bun.argv.slice(2))
+}
@@ -0,0 +1,24 @@
+#!/usr/bin/env bun
+/**
+ * Find implementations of an interface, abstract member or type at a position
+ *
+ * Usage: bun lsp-implementation.ts <file> <line> <character>
+ *        bun lsp-implementation.ts <file#Symbol.path>
+ */
+
+import { handleInterrupts } from './interrupt-signal.ts'
+import { findImplementations } from './lsp-queries.ts'
+import { createNavigationCommand } from './navigation-command.ts'
+
+/**
+ * Find implementations of the interface, abstract member or type at a cursor position
+ *
+ * @param args - Command line arguments [file, line, character] or [file#Symbol.path]
+ */
+export const lspImpl = createNavigationCommand({ name: 'lsp-impl', find: findImplementations })
+
+// Keep executable entry point for direct execution
+if (import.meta.main) {
+  handleInterrupts()
+  await lspImpl(Bun.argv.slice(2))
+}
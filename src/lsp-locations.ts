@@ -0,0 +1,42 @@
+/**
+ * Normalization of LSP navigation results
+ *
+ * @remarks
+ * `textDocument/definition`, `typeDefinition` and `implementation` return
+ * `Location`, `Location[]` or `LocationLink[]` (when the client advertises `linkSupport`).
+ *
+ * @internal
+ */
+
+import type { Location, LocationLink } from './lsp-types.ts'
+
+const isLocationLink = (value: unknown): value is LocationLink =>
+  typeof value === 'object' && value !== null && 'targetUri' in value
+
+const isLocation = (value: unknown): value is Location =>
+  typeof value === 'object' && value !== null && 'uri' in value && 'range' in value
+
+/**
+ * Normalize any navigation result shape to a flat list of locations
+ *
+ * @remarks
+ * Links are converted to their target selection range, which points at the
+ * symbol name like a plain `Location` does. Unknown entries are dropped.
+ *
+ * @param result - Raw `Location | Location[] | LocationLink[] | null` result
+ * @returns Locations in server order
+ */
+export const normalizeLocations = (result: unknown): Location[] => {
+  const items = Array.isArray(result) ? result : result ? [result] : []
+  const locations: Location[] = []
+
+  for (const item of items) {
+    if (isLocationLink(item)) {
+      locations.push({ uri: item.targetUri, range: item.targetSelectionRange })
+    } else if (isLocation(item)) {
+      locations.push({ uri: item.uri, range: item.range })
+    }
+  }
+
+  return locations
+}
@@ -0,0 +1,358 @@
+/**
+ * Language server queries that return data
+ *
+ * @remarks
+ * Hover, navigation, reference, call hierarchy, rename and symbol queries that return their results instead of
+ * printing them and exiting. Failures are thrown as {@link FileNotFoundError},
+ * {@link SymbolNotFoundError}, {@link AmbiguousSymbolError}, or the client's
+ * `LspResponseError` and `LspServerExitError`.
+ *
+ * Each call starts a client for the workspace and stops it again, using the LSP daemon
+ * when one is running. Pass a started `client` to run several queries against one server;
+ * it is left running.
+ */
+
+import { buildCallTree, type CallDirection, type CallTreeNode, normalizeCalls } from './call-hierarchy.ts'
+import { normalizeDocumentSymbols } from './document-symbols.ts'
+import { getLanguageId } from './language-id.ts'
+import { type LspClient, LspResponseError } from './lsp-client.ts'
+import { createLspClient } from './lsp-daemon.ts'
+import { normalizeLocations } from './lsp-locations.ts'
+import type {
+  CallHierarchyItem,
+  DocumentSymbol,
+  Hover,
+  Location,
+  SymbolInformation,
+  WorkspaceSymbol,
+} from './lsp-types.ts'
+import { resolveFilePath } from './resolve-file-path.ts'
+import { resolveSymbolPosition, type SymbolCandidate } from './resolve-symbol-position.ts'
+import { type FileChange, planWorkspaceEdit } from './workspace-edit.ts'
+
+/** JSON-RPC MethodNotFound code */
+const METHOD_NOT_FOUND = -32601
+
+/**
+ * Options shared by all queries
+ */
+export type QueryOptions = {
+  /** Workspace root that relative paths are resolved against (default: `process.cwd()`) */
+  cwd?: string
+  /** Language server preset or command, as for `--server` */
+  server?: string
+  /** Started client to query instead of starting one */
+  client?: LspClient
+  /** Cancels the query; a passed `client` is only cancelled by its own signal */
+  signal?: AbortSignal
+}
+
+/**
+ * Options of queries on one file
+ */
+export type DocumentQueryOptions = QueryOptions & {
+  /**
+   * Contents to query instead of the file on disk, e.g. unsaved editor contents. They are
+   * queried with a server of their own rather than the daemon's, where they would replace
+   * the text other connections see.
+   */
+  text?: string
+}
+
+/**
+ * Zero-based position, or a dotted symbol path such as `ConfigManager.load`
+ */
+export type QueryPosition = { line: number; character: number } | { symbol: string }
+
+/**
+ * The file to query does not exist
+ */
+export class FileNotFoundError extends Error {
+  readonly path: string
+
+  constructor(path: string) {
+    super(`File not found: ${path}`)
+    this.name = 'FileNotFoundError'
+    this.path = path
+  }
+}
+
+/**
+ * No symbol in the file matches a symbol path
+ */
+export class SymbolNotFoundError extends Error {
+  readonly symbol: string
+
+  constructor(symbol: string) {
+    super(`Symbol not found: ${symbol}`)
+    this.name = 'SymbolNotFoundError'
+    this.symbol = symbol
+  }
+}
+
+/**
+ * More than one symbol in the file matches a symbol path
+ *
+ * @remarks
+ * `candidates` lists the matches, so the caller can retry with a longer path or a position.
+ */
+export class AmbiguousSymbolError extends Error {
+  readonly symbol: string
+  readonly candidates: SymbolCandidate[]
+
+  constructor(symbol: string, candidates: SymbolCandidate[]) {
+    super(`Ambiguous symbol: ${symbol}`)
+    this.name = 'AmbiguousSymbolError'
+    this.symbol = symbol
+    this.candidates = candidates
+  }
+}
+
+/**
+ * Run `fn` with a started client, stopping it afterwards unless the caller passed it
+ */
+const withClient = async <T>(
+  { cwd = process.cwd(), server, client, signal, text }: DocumentQueryOptions,
+  fn: (client: LspClient) => Promise<T>,
+): Promise<T> => {
+  if (client) return fn(client)
+
+  const created = await createLspClient({ rootUri: `file://${cwd}`, server, signal, daemon: text === undefined })
+  try {
+    await created.start()
+    return await fn(created)
+  } finally {
+    await created.stop()
+  }
+}
+
+/**
+ * Open a file for the duration of `fn`
+ *
+ * @remarks
+ * `fn` gets the absolute path and the text that was opened.
+ *
+ * @throws {@link FileNotFoundError} when there is no `text` and the file does not exist
+ *
+ * @internal
+ */
+export const withDocument = async <T>(
+  file: string,
+  options: DocumentQueryOptions,
+  fn: (document: { client: LspClient; uri: string; path: string; text: string }) => Promise<T>,
+): Promise<T> => {
+  const absolutePath = resolveFilePath(file, options.cwd)
+  let text = options.text
+  if (text === undefined) {
+    const source = Bun.file(absolutePath)
+    if (!(await source.exists())) throw new FileNotFoundError(absolutePath)
+    text = await source.text()
+  }
+
+  return withClient(options, async (client) => {
+    const uri = `file://${absolutePath}`
+    client.openDocument(uri, getLanguageId(absolutePath), 1, text)
+    try {
+      return await fn({ client, uri, path: absolutePath, text })
+    } finally {
+      client.closeDocument(uri)
+    }
+  })
+}
+
+/**
+ * Resolve a query position in an open document
+ *
+ * @throws {@link SymbolNotFoundError} or {@link AmbiguousSymbolError} for a symbol path
+ * that does not match exactly one symbol
+ */
+const resolvePosition = async (
+  { client, uri }: { client: LspClient; uri: string },
+  position: QueryPosition,
+): Promise<{ line: number; character: number }> => {
+  if (!('symbol' in position)) return position
+  const candidates = await resolveSymbolPosition({ client, uri, symbol: position.symbol })
+  if (candidates.length === 0) throw new SymbolNotFoundError(position.symbol)
+  if (candidates.length > 1) throw new AmbiguousSymbolError(position.symbol, candidates)
+  return candidates[0]!
+}
+
+/**
+ * Get type information at a position or symbol
+ *
+ * @param file - Path relative to `cwd`, absolute path, or package specifier
+ * @param position - Zero-based position or symbol path
+ * @returns Hover, or `null` when there is nothing at the position
+ */
+export const hover = (
+  file: string,
+  position: QueryPosition,
+  options: DocumentQueryOptions = {},
+): Promise<Hover | null> =>
+  withDocument(file, options, async (document) => {
+    const { line, character } = await resolvePosition(document, position)
+    return document.client.hover(document.uri, line, character)
+  })
+
+/**
+ * Create a query for `textDocument/definition`, `typeDefinition` or `implementation`
+ */
+const createLocationQuery =
+  (method: 'definition' | 'typeDefinition' | 'implementation') =>
+  (file: string, position: QueryPosition, options: DocumentQueryOptions = {}): Promise<Location[]> =>
+    withDocument(file, options, async (document) => {
+      const { line, character } = await resolvePosition(document, position)
+      return normalizeLocations(await document.client[method](document.uri, line, character))
+    })
+
+/**
+ * Find where the symbol at a position is defined
+ *
+ * @returns Definitions, as locations of their names
+ */
+export const findDefinition = createLocationQuery('definition')
+
+/**
+ * Find where the type of the symbol at a position is defined
+ *
+ * @returns Type definitions, as locations of their names
+ */
+export const findTypeDefinition = createLocationQuery('typeDefinition')
+
+/**
+ * Find implementations of the interface, abstract member or type at a position
+ *
+ * @returns Implementations, as locations of their names
+ */
+export const findImplementations = createLocationQuery('implementation')
+
+/**
+ * Find all references to the symbol at a position
+ *
+ * @param options - Query options, and whether the declaration counts as a reference (default: `true`)
+ */
+export const findReferences = (
+  file: string,
+  position: QueryPosition,
+  { includeDeclaration = true, ...options }: DocumentQueryOptions & { includeDeclaration?: boolean } = {},
+): Promise<Location[]> =>
+  withDocument(file, options, async (document) => {
+    const { line, character } = await resolvePosition(document, position)
+    return (await document.client.references(document.uri, line, character, includeDeclaration)) ?? []
+  })
+
+/**
+ * Build the call hierarchy of the function at a position
+ *
+ * @param options - Query options, whether to follow callers or callees (default: `'incoming'`),
+ * and the levels of calls to follow (default: 3)
+ * @returns One tree per call hierarchy item at the position, with paths relative to `cwd`
+ */
+export const getCallHierarchy = (
+  file: string,
+  position: QueryPosition,
+  {
+    direction = 'incoming',
+    depth = 3,
+    ...options
+  }: DocumentQueryOptions & { direction?: CallDirection; depth?: number } = {},
+): Promise<CallTreeNode[]> =>
+  withDocument(file, options, async (document) => {
+    const { client } = document
+    const { line, character } = await resolvePosition(document, position)
+    const getCalls = async (item: CallHierarchyItem) =>
+      normalizeCalls(
+        direction === 'incoming' ? await client.incomingCalls(item) : await client.outgoingCalls(item),
+        direction,
+      )
+
+    const trees: CallTreeNode[] = []
+    for (const item of (await client.prepareCallHierarchy(document.uri, line, character)) ?? []) {
+      trees.push(await buildCallTree({ item, direction, depth, getCalls, cwd: options.cwd }))
+    }
+    return trees
+  })
+
+/**
+ * Check whether the symbol at a position can be renamed
+ *
+ * @remarks
+ * Only servers announcing `renameProvider.prepareProvider` implement `textDocument/prepareRename`;
+ * for the others, and for servers answering it with MethodNotFound anyway, `rename` decides.
+ * Servers reject prepareRename with an error or return null for elements that cannot be renamed.
+ */
+const canRename = async (client: LspClient, uri: string, line: number, character: number): Promise<boolean> => {
+  const provider = client.initializeResult?.capabilities.renameProvider
+  if (typeof provider !== 'object' || !(provider as { prepareProvider?: boolean } | null)?.prepareProvider) return true
+
+  try {
+    return (await client.prepareRename(uri, line, character)) !== null
+  } catch (error) {
+    if (error instanceof LspResponseError) return error.response.code === METHOD_NOT_FOUND
+    throw error
+  }
+}
+
+/**
+ * Plan renaming the symbol at a position across the workspace
+ *
+ * @remarks
+ * Nothing is written; pass the changes to `applyFileChanges` or print them as diffs. The
+ * queried file's change is based on the text that was sent to the server.
+ *
+ * @param newName - New name for the symbol
+ * @returns Changed files, or `null` when the symbol cannot be renamed
+ * @throws When the edit targets a document version the server no longer has open
+ */
+export const planRename = (
+  file: string,
+  position: QueryPosition,
+  newName: string,
+  options: DocumentQueryOptions = {},
+): Promise<FileChange[] | null> =>
+  withDocument(file, options, async (document) => {
+    const { client, uri, path, text } = document
+    // Through the daemon, another connection may have the document open at a later version
+    const version = await client.getServerDocumentVersion(uri)
+    const { line, character } = await resolvePosition(document, position)
+
+    const edit = (await canRename(client, uri, line, character))
+      ? await client.rename(uri, line, character, newName)
+      : null
+    if (!edit) return null
+
+    return planWorkspaceEdit(edit, {
+      snapshots: new Map([[path, text]]),
+      versions: new Map(version === undefined ? [] : [[path, version]]),
+    })
+  })
+
+/**
+ * List the symbols of a file
+ *
+ * @returns Top-level symbols with their children
+ */
+export const getDocumentSymbols = (file: string, options: DocumentQueryOptions = {}): Promise<DocumentSymbol[]> =>
+  withDocument(file, options, async ({ client, uri, text }) =>
+    normalizeDocumentSymbols(await client.documentSymbols(uri), text),
+  )
+
+/**
+ * Search for symbols across the workspace by name
+ *
+ * @remarks
+ * The server only searches projects it has loaded, so `file` is opened and loaded first.
+ *
+ * @param query - Symbol name or prefix
+ * @param options - Any file of the project, the maximum time in milliseconds to wait for the
+ * project to load (default: 30000), and query options
+ * @returns Matching symbols; `complete` is `false` when the project did not load in time
+ */
+export const findSymbols = (
+  query: string,
+  { file, timeout, ...options }: QueryOptions & { file: string; timeout?: number },
+): Promise<{ complete: boolean; symbols: SymbolInformation[] | WorkspaceSymbol[] }> =>
+  withDocument(file, options, async ({ client, uri }) => {
+    const complete = await client.waitForReady(uri, { timeout })
+    return { complete, symbols: (await client.workspaceSymbols(query)) ?? [] }
+  })
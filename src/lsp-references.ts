@@ -2,82 +2,107 @@
 /**
  * Find all references to a symbol at a position
  *
- * Usage: bun lsp-references.ts <file> <line> <character>
+ * Usage: bun lsp-references.ts <file> <line> <character> [--context <n>]
+ *        bun lsp-references.ts <file#Symbol.path> [--context <n>]
  */
 
 import { parseArgs } from 'node:util'
-import { LspClient } from './lsp-client.ts'
+import { documentContentOptions, hasProposedContent, readDocumentText } from './document-content.ts'
+import { getInterruptSignal, handleInterrupts } from './interrupt-signal.ts'
+import { findReferences } from './lsp-queries.ts'
+import { OUTPUT_FORMATS, parseOutputFormat, printQueryError, printResult } from './output-format.ts'
+import { addReferenceContext } from './reference-context.ts'
 import { resolveFilePath } from './resolve-file-path.ts'
+import { parseSymbolPath } from './resolve-symbol-position.ts'
 
 /**
  * Find all references to a symbol at a cursor position
  *
- * @param args - Command line arguments [file, line, character]
+ * @param args - Command line arguments [file, line, character] or [file#Symbol.path]
  */
 export const lspRefs = async (args: string[]) => {
-  const { positionals } = parseArgs({
+  const { values, positionals } = parseArgs({
     args,
+    options: {
+      context: { type: 'string' },
+      ...documentContentOptions,
+      server: { type: 'string' },
+      format: { type: 'string', default: 'json' },
+    },
     allowPositionals: true,
   })
 
-  const [filePath, lineStr, charStr] = positionals
+  const format = parseOutputFormat(values.format)
+  if (!format) {
+    console.error(`Error: format must be one of ${OUTPUT_FORMATS.join(', ')}`)
+    process.exit(1)
+  }
 
-  if (!filePath || !lineStr || !charStr) {
-    console.error('Usage: lsp-refs <file> <line> <character>')
+  const [target, lineStr, charStr] = positionals
+  const symbolPath = target ? parseSymbolPath(target) : undefined
+
+  if (!target || (!symbolPath && (!lineStr || !charStr))) {
+    console.error('Usage: lsp-refs <file> <line> <character> [--context <n>]')
+    console.error('       lsp-refs <file#Symbol.path> [--context <n>]')
     console.error('  file: Path to TypeScript/JavaScript file')
     console.error('  line: Line number (0-indexed)')
     console.error('  character: Character position (0-indexed)')
+    console.error('  Symbol.path: Dotted symbol name, e.g. src/app.ts#ConfigManager.load')
+    console.error('  --context: Add the usage kind, the source line and n lines around each reference')
+    console.error('  --format: Output format: json (default), text, compact or markdown')
+    console.error('  --server: Language server preset or command (default: typescript-language-server)')
+    console.error('  --stdin, --content-file <path>: Query these contents instead of the file on disk')
     process.exit(1)
   }
 
-  const line = parseInt(lineStr, 10)
-  const character = parseInt(charStr, 10)
+  const context = values.context === undefined ? undefined : parseInt(values.context, 10)
+  if (context !== undefined && (Number.isNaN(context) || context < 0)) {
+    console.error('Error: context must be a number of lines')
+    process.exit(1)
+  }
+
+  const line = parseInt(lineStr ?? '', 10)
+  const character = parseInt(charStr ?? '', 10)
 
-  if (Number.isNaN(line) || Number.isNaN(character)) {
+  if (!symbolPath && (Number.isNaN(line) || Number.isNaN(character))) {
     console.error('Error: line and character must be numbers')
     process.exit(1)
   }
 
-  const absolutePath = resolveFilePath(filePath)
-  const uri = `file://${absolutePath}`
-  const rootUri = `file://${process.cwd()}`
+  const absolutePath = resolveFilePath(symbolPath?.filePath ?? target)
+  const { text, source } = await readDocumentText(absolutePath, values)
+  if (text === undefined) {
+    console.error(`Error: File not found: ${source}`)
+    process.exit(1)
+  }
 
-  const client = new LspClient({ rootUri })
+  const proposed = hasProposedContent(values)
+  const texts = proposed ? new Map([[absolutePath, text]]) : undefined
 
   try {
-    await client.start()
-
-    const file = Bun.file(absolutePath)
-    if (!(await file.exists())) {
-      console.error(`Error: File not found: ${absolutePath}`)
-      process.exit(1)
-    }
-
-    const text = await file.text()
-    const languageId = absolutePath.endsWith('.tsx')
-      ? 'typescriptreact'
-      : absolutePath.endsWith('.ts')
-        ? 'typescript'
-        : absolutePath.endsWith('.jsx')
-          ? 'javascriptreact'
-          : 'javascript'
-
-    client.openDocument(uri, languageId, 1, text)
-
-    const result = await client.references(uri, line, character, true)
-
-    client.closeDocument(uri)
-    await client.stop()
-
-    console.log(JSON.stringify(result, null, 2))
+    const result = await findReferences(
+      absolutePath,
+      symbolPath ? { symbol: symbolPath.symbol } : { line, character },
+      {
+        server: values.server,
+        text: proposed ? text : undefined,
+        signal: getInterruptSignal(),
+      },
+    )
+
+    await printResult(
+      context === undefined ? result : await addReferenceContext(result, { context, texts }),
+      format,
+      texts,
+    )
   } catch (error) {
-    console.error('Error:', error)
-    await client.stop()
+    await printQueryError(error, format)
     process.exit(1)
   }
 }
 
 // Keep executable entry point for direct execution
 if (import.meta.main) {
+  handleInterrupts()
   await lspRefs(Bun.argv.slice(2))
 }
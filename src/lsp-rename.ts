@@ -0,0 +1,112 @@
+#!/usr/bin/env bun
+/**
+ * Rename a symbol across the workspace
+ *
+ * Prints the edit as a unified diff, or writes it to disk with `--apply`.
+ *
+ * Usage: bun lsp-rename.ts <file> <line> <character> <newName> [--apply]
+ *        bun lsp-rename.ts <file#Symbol.path> <newName> [--apply]
+ */
+
+import { relative } from 'node:path'
+import { parseArgs } from 'node:util'
+import { documentContentOptions, hasProposedContent, readDocumentText } from './document-content.ts'
+import { getInterruptSignal, handleInterrupts } from './interrupt-signal.ts'
+import { planRename } from './lsp-queries.ts'
+import { OUTPUT_FORMATS, parseOutputFormat, printQueryError, printResult } from './output-format.ts'
+import { resolveFilePath } from './resolve-file-path.ts'
+import { parseSymbolPath } from './resolve-symbol-position.ts'
+import { applyFileChanges, createUnifiedDiff } from './workspace-edit.ts'
+
+/**
+ * Rename the symbol at a cursor position
+ *
+ * @param args - Command line arguments [file, line, character, newName] or [file#Symbol.path, newName]
+ */
+export const lspRename = async (args: string[]) => {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      apply: { type: 'boolean', default: false },
+      ...documentContentOptions,
+      server: { type: 'string' },
+      format: { type: 'string', default: 'json' },
+    },
+    allowPositionals: true,
+  })
+
+  const format = parseOutputFormat(values.format)
+  if (!format) {
+    console.error(`Error: format must be one of ${OUTPUT_FORMATS.join(', ')}`)
+    process.exit(1)
+  }
+
+  // The edit is computed against the proposed contents, so applying it would write them too
+  if (values.apply && hasProposedContent(values)) {
+    console.error('Error: --apply cannot be combined with --stdin or --content-file')
+    process.exit(1)
+  }
+
+  const [target] = positionals
+  const symbolPath = target ? parseSymbolPath(target) : undefined
+  const [lineStr, charStr, newName] = symbolPath ? [undefined, undefined, positionals[1]] : positionals.slice(1)
+
+  if (!target || !newName || (!symbolPath && (!lineStr || !charStr))) {
+    console.error('Usage: lsp-rename <file> <line> <character> <newName> [--apply]')
+    console.error('       lsp-rename <file#Symbol.path> <newName> [--apply]')
+    console.error('  file: Path to TypeScript/JavaScript file')
+    console.error('  line: Line number (0-indexed)')
+    console.error('  character: Character position (0-indexed)')
+    console.error('  newName: New name for the symbol')
+    console.error('  --apply: Write the changes to disk instead of printing a diff')
+    console.error('  --format: Output format: json (default), text, compact or markdown')
+    console.error('  --server: Language server preset or command (default: typescript-language-server)')
+    console.error('  --stdin, --content-file <path>: Preview edits of these contents instead of the file on disk')
+    process.exit(1)
+  }
+
+  const line = parseInt(lineStr ?? '', 10)
+  const character = parseInt(charStr ?? '', 10)
+
+  if (!symbolPath && (Number.isNaN(line) || Number.isNaN(character))) {
+    console.error('Error: line and character must be numbers')
+    process.exit(1)
+  }
+
+  const absolutePath = resolveFilePath(symbolPath?.filePath ?? target)
+  const cwd = process.cwd()
+  const { text, source } = await readDocumentText(absolutePath, values)
+  if (text === undefined) {
+    console.error(`Error: File not found: ${source}`)
+    process.exit(1)
+  }
+
+  try {
+    const changes = await planRename(
+      absolutePath,
+      symbolPath ? { symbol: symbolPath.symbol } : { line, character },
+      newName,
+      { server: values.server, text: hasProposedContent(values) ? text : undefined, signal: getInterruptSignal() },
+    )
+    if (!changes) {
+      console.error(`Error: ${symbolPath ? symbolPath.symbol : `Symbol at ${line}:${character}`} cannot be renamed`)
+      process.exit(1)
+    }
+
+    if (values.apply) {
+      await applyFileChanges(changes)
+      await printResult({ applied: true, files: changes.map((change) => relative(cwd, change.path)) }, format)
+    } else {
+      process.stdout.write(changes.map((change) => createUnifiedDiff(change, cwd)).join(''))
+    }
+  } catch (error) {
+    await printQueryError(error, format)
+    process.exit(1)
+  }
+}
+
+// Keep executable entry point for direct execution
+if (import.meta.main) {
+  handleInterrupts()
+  await lspRename(Bun.argv.slice(2))
+}
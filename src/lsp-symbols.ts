@@ -6,7 +6,10 @@
  */
 
 import { parseArgs } from 'node:util'
-import { LspClient } from './lsp-client.ts'
+import { documentContentOptions, hasProposedContent, readDocumentText } from './document-content.ts'
+import { getInterruptSignal, handleInterrupts } from './interrupt-signal.ts'
+import { createLspClient } from './lsp-daemon.ts'
+import { OUTPUT_FORMATS, parseOutputFormat, printResult } from './output-format.ts'
 import { resolveFilePath } from './resolve-file-path.ts'
 
 /**
@@ -15,16 +18,30 @@ import { resolveFilePath } from './resolve-file-path.ts'
  * @param args - Command line arguments [file]
  */
 export const lspSymbols = async (args: string[]) => {
-  const { positionals } = parseArgs({
+  const { values, positionals } = parseArgs({
     args,
+    options: {
+      ...documentContentOptions,
+      server: { type: 'string' },
+      format: { type: 'string', default: 'json' },
+    },
     allowPositionals: true,
   })
 
+  const format = parseOutputFormat(values.format)
+  if (!format) {
+    console.error(`Error: format must be one of ${OUTPUT_FORMATS.join(', ')}`)
+    process.exit(1)
+  }
+
   const [filePath] = positionals
 
   if (!filePath) {
     console.error('Usage: lsp-symbols <file>')
     console.error('  file: Path to TypeScript/JavaScript file')
+    console.error('  --format: Output format: json (default), text, compact or markdown')
+    console.error('  --server: Language server preset or command (default: typescript-language-server)')
+    console.error('  --stdin, --content-file <path>: Query these contents instead of the file on disk')
     process.exit(1)
   }
 
@@ -32,18 +49,23 @@ export const lspSymbols = async (args: string[]) => {
   const uri = `file://${absolutePath}`
   const rootUri = `file://${process.cwd()}`
 
-  const client = new LspClient({ rootUri })
+  const client = await createLspClient({
+    rootUri,
+    server: values.server,
+    signal: getInterruptSignal(),
+    daemon: !hasProposedContent(values),
+  })
 
   try {
     await client.start()
 
-    const file = Bun.file(absolutePath)
-    if (!(await file.exists())) {
-      console.error(`Error: File not found: ${absolutePath}`)
+    const { text, source } = await readDocumentText(absolutePath, values)
+    if (text === undefined) {
+      console.error(`Error: File not found: ${source}`)
+      await client.stop()
       process.exit(1)
     }
 
-    const text = await file.text()
     const languageId = absolutePath.endsWith('.tsx')
       ? 'typescriptreact'
       : absolutePath.endsWith('.ts')
@@ -59,7 +81,7 @@ export const lspSymbols = async (args: string[]) => {
     client.closeDocument(uri)
     await client.stop()
 
-    console.log(JSON.stringify(result, null, 2))
+    await printResult(result, format)
   } catch (error) {
     console.error('Error:', error)
     await client.stop()
@@ -69,5 +91,6 @@ export const lspSymbols = async (args: string[]) => {
 
 // Keep executable entry point for direct execution
 if (import.meta.main) {
+  handleInterrupts()
   await lspSymbols(Bun.argv.slice(2))
 }
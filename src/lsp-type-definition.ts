@@ -0,0 +1,24 @@
+#!/usr/bin/env bun
+/**
+ * Go to the definition of the type of the symbol at a position
+ *
+ * Usage: bun lsp-type-definition.ts <file> <line> <character>
+ *        bun lsp-type-definition.ts <file#Symbol.path>
+ */
+
+import { handleInterrupts } from './interrupt-signal.ts'
+import { findTypeDefinition } from './lsp-queries.ts'
+import { createNavigationCommand } from './navigation-command.ts'
+
+/**
+ * Find where the type of the symbol at a cursor position is defined
+ *
+ * @param args - Command line arguments [file, line, character] or [file#Symbol.path]
+ */
+export const lspTypeDef = createNavigationCommand({ name: 'lsp-type-def', find: findTypeDefinition })
+
+// Keep executable entry point for direct execution
+if (import.meta.main) {
+  handleInterrupts()
+  await lspTypeDef(Bun.argv.slice(2))
+}
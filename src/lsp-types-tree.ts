@@ -0,0 +1,125 @@
+#!/usr/bin/env bun
+/**
+ * Show the supertypes and subtypes of a class or interface as a tree
+ *
+ * Usage: bun lsp-types-tree.ts <file> <line> <character>
+ *        bun lsp-types-tree.ts <file#Symbol.path>
+ */
+
+import { parseArgs } from 'node:util'
+import { documentContentOptions, hasProposedContent, readDocumentText } from './document-content.ts'
+import { getInterruptSignal, handleInterrupts } from './interrupt-signal.ts'
+import { getLanguageId } from './language-id.ts'
+import { createLspClient } from './lsp-daemon.ts'
+import { OUTPUT_FORMATS, parseOutputFormat, printResult } from './output-format.ts'
+import { resolveFilePath } from './resolve-file-path.ts'
+import { parseSymbolPath, resolveSymbolPosition } from './resolve-symbol-position.ts'
+import { buildTypeTree, createTypeHierarchy } from './type-hierarchy.ts'
+
+/**
+ * Print the inheritance and implementation tree of the type at a cursor position
+ *
+ * @param args - Command line arguments [file, line, character] or [file#Symbol.path]
+ */
+export const lspTypesTree = async (args: string[]) => {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      ...documentContentOptions,
+      server: { type: 'string' },
+      format: { type: 'string', default: 'json' },
+    },
+    allowPositionals: true,
+  })
+
+  const format = parseOutputFormat(values.format)
+  if (!format) {
+    console.error(`Error: format must be one of ${OUTPUT_FORMATS.join(', ')}`)
+    process.exit(1)
+  }
+
+  const [target, lineStr, charStr] = positionals
+  const symbolPath = target ? parseSymbolPath(target) : undefined
+
+  if (!target || (!symbolPath && (!lineStr || !charStr))) {
+    console.error('Usage: lsp-types-tree <file> <line> <character>')
+    console.error('       lsp-types-tree <file#Symbol.path>')
+    console.error('  file: Path to TypeScript/JavaScript file')
+    console.error('  line: Line number (0-indexed)')
+    console.error('  character: Character position (0-indexed)')
+    console.error('  Symbol.path: Dotted symbol name, e.g. src/app.ts#ConfigManager')
+    console.error('  --format: Output format: json (default), text, compact or markdown')
+    console.error('  --server: Language server preset or command (default: typescript-language-server)')
+    console.error('  --stdin, --content-file <path>: Query these contents instead of the file on disk')
+    process.exit(1)
+  }
+
+  let line = parseInt(lineStr ?? '', 10)
+  let character = parseInt(charStr ?? '', 10)
+
+  if (!symbolPath && (Number.isNaN(line) || Number.isNaN(character))) {
+    console.error('Error: line and character must be numbers')
+    process.exit(1)
+  }
+
+  const absolutePath = resolveFilePath(symbolPath?.filePath ?? target)
+  const uri = `file://${absolutePath}`
+  const rootUri = `file://${process.cwd()}`
+
+  const client = await createLspClient({
+    rootUri,
+    server: values.server,
+    signal: getInterruptSignal(),
+    daemon: !hasProposedContent(values),
+  })
+
+  try {
+    await client.start()
+
+    const { text, source } = await readDocumentText(absolutePath, values)
+    if (text === undefined) {
+      console.error(`Error: File not found: ${source}`)
+      await client.stop()
+      process.exit(1)
+    }
+
+    client.openDocument(uri, getLanguageId(absolutePath), 1, text)
+
+    if (symbolPath) {
+      const candidates = await resolveSymbolPosition({ client, uri, symbol: symbolPath.symbol })
+      if (candidates.length !== 1) {
+        client.closeDocument(uri)
+        await client.stop()
+        if (candidates.length === 0) {
+          console.error(`Error: Symbol not found: ${symbolPath.symbol}`)
+        } else {
+          await printResult({ symbol: symbolPath.symbol, candidates }, format)
+        }
+        process.exit(1)
+      }
+      ;({ line, character } = candidates[0]!)
+    }
+
+    const hierarchy = createTypeHierarchy({ client, documents: new Map([[uri, text]]) })
+    const result = []
+    for (const item of await hierarchy.prepare(uri, { line, character })) {
+      result.push(await buildTypeTree({ item, hierarchy }))
+    }
+
+    hierarchy.close()
+    client.closeDocument(uri)
+    await client.stop()
+
+    await printResult(result, format)
+  } catch (error) {
+    console.error('Error:', error)
+    await client.stop()
+    process.exit(1)
+  }
+}
+
+// Keep executable entry point for direct execution
+if (import.meta.main) {
+  handleInterrupts()
+  await lspTypesTree(Bun.argv.slice(2))
+}
@@ -0,0 +1,202 @@
+/**
+ * Types of the LSP requests and responses the client uses
+ *
+ * @remarks
+ * Subsets of the Language Server Protocol 3.17 structures, limited to the fields
+ * this package reads or sends. Several results are unions of older and newer
+ * shapes; `normalizeLocations`, `normalizeDocumentSymbols`, `getHoverText` and
+ * `normalizeCodeActions` turn them into one shape.
+ *
+ * @see https://microsoft.github.io/language-server-protocol/specifications/lsp/3.17/specification/
+ *
+ * @internal
+ */
+
+// Locations
+
+/** Zero-based line and UTF-16 character offset */
+export type Position = { line: number; character: number }
+
+export type Range = { start: Position; end: Position }
+
+export type Location = { uri: string; range: Range }
+
+export type LocationLink = {
+  originSelectionRange?: Range
+  targetUri: string
+  targetRange: Range
+  targetSelectionRange: Range
+}
+
+/** Result of `textDocument/definition`, `typeDefinition` and `implementation` */
+export type DefinitionResult = Location | Location[] | LocationLink[] | null
+
+// Hover
+
+export type MarkupContent = { kind: 'plaintext' | 'markdown'; value: string }
+
+/** Deprecated hover content: markdown text, or a code block in a language */
+export type MarkedString = string | { language: string; value: string }
+
+export type Hover = {
+  contents: MarkupContent | MarkedString | MarkedString[]
+  range?: Range
+}
+
+// Symbols
+
+/** `SymbolKind` value, named by `symbolKindNames` */
+export type SymbolKind = number
+
+/** Hierarchical symbol from `textDocument/documentSymbol` */
+export type DocumentSymbol = {
+  name: string
+  detail?: string
+  kind: SymbolKind
+  tags?: number[]
+  range: Range
+  selectionRange: Range
+  children?: DocumentSymbol[]
+}
+
+/** Flat symbol from `textDocument/documentSymbol` or `workspace/symbol` */
+export type SymbolInformation = {
+  name: string
+  kind: SymbolKind
+  tags?: number[]
+  location: Location
+  containerName?: string
+}
+
+/** Workspace symbol whose range may only be known after `workspaceSymbol/resolve` */
+export type WorkspaceSymbol = {
+  name: string
+  kind: SymbolKind
+  tags?: number[]
+  location: Location | { uri: string }
+  containerName?: string
+  data?: unknown
+}
+
+// Call and type hierarchy
+
+export type CallHierarchyItem = {
+  name: string
+  kind: SymbolKind
+  detail?: string
+  uri: string
+  range: Range
+  selectionRange: Range
+  data?: unknown
+}
+
+export type CallHierarchyIncomingCall = { from: CallHierarchyItem; fromRanges: Range[] }
+
+export type CallHierarchyOutgoingCall = { to: CallHierarchyItem; fromRanges: Range[] }
+
+export type TypeHierarchyItem = {
+  name: string
+  kind: SymbolKind
+  detail?: string
+  uri: string
+  range: Range
+  selectionRange: Range
+  data?: unknown
+}
+
+// Diagnostics
+
+/** 1 Error, 2 Warning, 3 Information, 4 Hint */
+export type DiagnosticSeverity = 1 | 2 | 3 | 4
+
+export type Diagnostic = {
+  range: Range
+  severity?: DiagnosticSeverity
+  code?: number | string
+  source?: string
+  message: string
+  relatedInformation?: Array<{ location: Location; message: string }>
+  data?: unknown
+}
+
+// Edits
+
+export type TextEdit = { range: Range; newText: string }
+
+export type TextDocumentEdit = {
+  textDocument: { uri: string; version?: number | null }
+  edits: TextEdit[]
+}
+
+export type CreateFile = { kind: 'create'; uri: string; options?: { overwrite?: boolean; ignoreIfExists?: boolean } }
+
+export type RenameFile = {
+  kind: 'rename'
+  oldUri: string
+  newUri: string
+  options?: { overwrite?: boolean; ignoreIfExists?: boolean }
+}
+
+export type DeleteFile = { kind: 'delete'; uri: string; options?: { ignoreIfNotExists?: boolean } }
+
+export type WorkspaceEdit = {
+  changes?: Record<string, TextEdit[]>
+  documentChanges?: Array<TextDocumentEdit | CreateFile | RenameFile | DeleteFile>
+}
+
+/** Result of `textDocument/prepareRename` */
+export type PrepareRenameResult = Range | { range: Range; placeholder: string } | { defaultBehavior: boolean } | null
+
+// Code actions
+
+export type Command = { title: string; command: string; arguments?: unknown[] }
+
+export type CodeAction = {
+  title: string
+  kind?: string
+  diagnostics?: Diagnostic[]
+  isPreferred?: boolean
+  disabled?: { reason: string }
+  edit?: WorkspaceEdit
+  command?: Command
+  data?: unknown
+}
+
+export type CodeActionContext = { diagnostics: Diagnostic[]; only?: string[] }
+
+// Completion and signature help
+
+export type CompletionItem = {
+  label: string
+  kind?: number
+  detail?: string
+  documentation?: string | MarkupContent
+  sortText?: string
+  filterText?: string
+  insertText?: string
+  textEdit?: TextEdit
+  data?: unknown
+}
+
+export type CompletionList = { isIncomplete: boolean; items: CompletionItem[] }
+
+export type SignatureInformation = {
+  label: string
+  documentation?: string | MarkupContent
+  parameters?: Array<{ label: string | [number, number]; documentation?: string | MarkupContent }>
+  activeParameter?: number
+}
+
+export type SignatureHelp = {
+  signatures: SignatureInformation[]
+  activeSignature?: number
+  activeParameter?: number
+}
+
+// Lifecycle
+
+export type InitializeResult = {
+  /** Capabilities the server announced, keyed as in `ServerCapabilities` */
+  capabilities: Record<string, unknown>
+  serverInfo?: { name: string; version?: string }
+}
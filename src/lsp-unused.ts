@@ -0,0 +1,109 @@
+#!/usr/bin/env bun
+/**
+ * List exports that no other file uses
+ *
+ * Usage: bun lsp-unused.ts [file|glob...] [--package-roots] [--test-roots] [--timeout <ms>]
+ */
+
+import { parseArgs } from 'node:util'
+import { expandFilePatterns } from './expand-file-patterns.ts'
+import { getInterruptSignal, handleInterrupts } from './interrupt-signal.ts'
+import { createLspClient } from './lsp-daemon.ts'
+import { OUTPUT_FORMATS, parseOutputFormat, printResult } from './output-format.ts'
+import { findUnusedExports, getPackageEntryFiles, isTestFile } from './unused-exports.ts'
+
+/** Files checked when no paths are given */
+const DEFAULT_PATTERN = '**/*.{ts,tsx,mts,cts,js,jsx,mjs,cjs}'
+
+/**
+ * Find exported symbols without references outside their own file
+ *
+ * @param args - Command line arguments [files or globs...]
+ */
+export const lspUnused = async (args: string[]) => {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      'package-roots': { type: 'boolean', default: false },
+      'test-roots': { type: 'boolean', default: false },
+      timeout: { type: 'string', default: '30000' },
+      help: { type: 'boolean', short: 'h' },
+      server: { type: 'string' },
+      format: { type: 'string', default: 'json' },
+    },
+    allowPositionals: true,
+  })
+
+  const format = parseOutputFormat(values.format)
+  if (!format) {
+    console.error(`Error: format must be one of ${OUTPUT_FORMATS.join(', ')}`)
+    process.exit(1)
+  }
+
+  if (values.help) {
+    console.log('Usage: lsp-unused [file|glob...] [--package-roots] [--test-roots] [--timeout <ms>]')
+    console.log(`  file: Files to check, or globs such as "src/**/*.ts" (default: "${DEFAULT_PATTERN}")`)
+    console.log('  --package-roots: Treat exports of package.json main/exports/bin files as used')
+    console.log('  --test-roots: Count uses in test files (*.test.*, *.spec.*, __tests__/)')
+    console.log('  --timeout: Maximum time to wait for the project to load (default: 30000)')
+    console.log('  --format: Output format: json (default), text, compact or markdown')
+    console.log('  --server: Language server preset or command (default: typescript-language-server)')
+    process.exit(0)
+  }
+
+  const timeout = parseInt(values.timeout, 10)
+  if (Number.isNaN(timeout)) {
+    console.error('Error: timeout must be a number')
+    process.exit(1)
+  }
+
+  const cwd = process.cwd()
+  const files = (await expandFilePatterns(positionals.length > 0 ? positionals : [DEFAULT_PATTERN])).filter(
+    (file) => !file.endsWith('.d.ts') && !isTestFile(file),
+  )
+  if (files.length === 0) {
+    console.error(`Error: No files match: ${positionals.join(' ') || DEFAULT_PATTERN}`)
+    process.exit(1)
+  }
+
+  for (const file of files) {
+    if (!(await Bun.file(file).exists())) {
+      console.error(`Error: File not found: ${file}`)
+      process.exit(1)
+    }
+  }
+
+  const rootFiles = values['package-roots'] ? await getPackageEntryFiles(cwd) : []
+  const client = await createLspClient({
+    rootUri: `file://${cwd}`,
+    server: values.server,
+    signal: getInterruptSignal(),
+  })
+
+  try {
+    await client.start()
+
+    const result = await findUnusedExports({
+      client,
+      files,
+      rootFiles,
+      testRoots: values['test-roots'],
+      cwd,
+      timeout,
+    })
+
+    await client.stop()
+
+    await printResult(result, format)
+  } catch (error) {
+    console.error('Error:', error)
+    await client.stop()
+    process.exit(1)
+  }
+}
+
+// Keep executable entry point for direct execution
+if (import.meta.main) {
+  handleInterrupts()
+  await lspUnused(Bun.argv.slice(2))
+}
@@ -0,0 +1,362 @@
+#!/usr/bin/env bun
+/**
+ * Model Context Protocol server exposing the LSP tools over stdio
+ *
+ * Usage: bun mcp-server.ts [--server <preset|command>]
+ *
+ * @remarks
+ * Messages are newline-delimited JSON-RPC on stdin/stdout, as the MCP stdio
+ * transport specifies. All LSP tools share one long-lived `LspClient`, started on
+ * the first call. Tool calls run one at a time, so documents opened for one call
+ * never leak into another.
+ *
+ * @see https://modelcontextprotocol.io/specification
+ */
+
+import { parseArgs } from 'node:util'
+import pkg from '../package.json' with { type: 'json' }
+import { getInterruptSignal, handleInterrupts } from './interrupt-signal.ts'
+import type { JsonRpcRequest, JsonRpcResponse } from './json-rpc.ts'
+import { analyzeDocument } from './lsp-analyze.ts'
+import type { LspClient } from './lsp-client.ts'
+import { createLspClient } from './lsp-daemon.ts'
+import {
+  AmbiguousSymbolError,
+  findReferences,
+  findSymbols,
+  getDocumentSymbols,
+  hover,
+  type QueryPosition,
+  withDocument,
+} from './lsp-queries.ts'
+import { validateSkillPaths } from './validate-skill.ts'
+
+/** Protocol versions this server can speak, newest first */
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05']
+
+type ToolArguments = Record<string, unknown>
+
+type Tool = {
+  name: string
+  description: string
+  inputSchema: {
+    type: 'object'
+    properties: Record<string, unknown>
+    required?: string[]
+  }
+  call: (args: ToolArguments) => Promise<unknown>
+}
+
+/**
+ * Invalid tool arguments, reported to the caller as an `isError` result
+ */
+class ToolError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ToolError'
+  }
+}
+
+const fileProperty = { type: 'string', description: 'Path to a TypeScript/JavaScript file, relative to the workspace' }
+
+const positionProperties = {
+  file: fileProperty,
+  line: { type: 'integer', minimum: 0, description: 'Line number (0-indexed)' },
+  character: { type: 'integer', minimum: 0, description: 'Character position (0-indexed)' },
+  symbol: {
+    type: 'string',
+    description: 'Dotted symbol path such as ConfigManager.load, used instead of line and character',
+  },
+}
+
+const getString = (args: ToolArguments, key: string): string | undefined => {
+  const value = args[key]
+  if (value === undefined) return undefined
+  if (typeof value !== 'string') throw new ToolError(`${key} must be a string`)
+  return value
+}
+
+const requireString = (args: ToolArguments, key: string): string => {
+  const value = getString(args, key)
+  if (!value) throw new ToolError(`${key} is required`)
+  return value
+}
+
+const getStringArray = (args: ToolArguments, key: string): string[] | undefined => {
+  const value = args[key]
+  if (value === undefined) return undefined
+  if (!Array.isArray(value) || !value.every((item) => typeof item === 'string')) {
+    throw new ToolError(`${key} must be an array of strings`)
+  }
+  return value
+}
+
+/**
+ * Create the MCP tools, backed by a lazily started client for the workspace
+ *
+ * @param rootUri - Workspace root passed to the language server
+ * @param server - `--server` value, if one was given
+ * @returns Tools and a function that stops the client if it was started
+ */
+const createTools = (rootUri: string, server?: string) => {
+  let clientPromise: Promise<LspClient> | undefined
+
+  const getClient = async () => {
+    // A lost daemon connection, or a server that crashed too often, needs a new client
+    const current = await clientPromise?.catch(() => undefined)
+    if (!current?.isRunning()) {
+      clientPromise = createLspClient({ rootUri, server, autoRestart: true, signal: getInterruptSignal() }).then(
+        async (client) => {
+          await client.start()
+          return client
+        },
+      )
+    }
+    return clientPromise!
+  }
+
+  /**
+   * Get the `line`/`character` or `symbol` arguments
+   */
+  const getPosition = (args: ToolArguments): QueryPosition => {
+    const symbol = getString(args, 'symbol')
+    if (symbol) return { symbol }
+
+    const { line, character } = args
+    if (!Number.isInteger(line) || !Number.isInteger(character)) {
+      throw new ToolError('Provide either symbol or integer line and character')
+    }
+    return { line: line as number, character: character as number }
+  }
+
+  const tools: Tool[] = [
+    {
+      name: 'lsp-hover',
+      description: 'Get type information at a position or symbol in a TypeScript/JavaScript file',
+      inputSchema: { type: 'object', properties: positionProperties, required: ['file'] },
+      call: async (args) => hover(requireString(args, 'file'), getPosition(args), { client: await getClient() }),
+    },
+    {
+      name: 'lsp-find',
+      description:
+        'Search for TypeScript symbols (functions, types, classes) across the workspace by name. `complete` is false when the project did not finish loading in time.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'Symbol name or prefix to search for' },
+          file: { ...fileProperty, description: 'Any file in the project, used to load the project' },
+        },
+        required: ['query', 'file'],
+      },
+      call: async (args) =>
+        findSymbols(requireString(args, 'query'), { file: requireString(args, 'file'), client: await getClient() }),
+    },
+    {
+      name: 'lsp-refs',
+      description: 'Find all references to the symbol at a position or symbol path',
+      inputSchema: { type: 'object', properties: positionProperties, required: ['file'] },
+      call: async (args) =>
+        findReferences(requireString(args, 'file'), getPosition(args), { client: await getClient() }),
+    },
+    {
+      name: 'lsp-symbols',
+      description: 'List all symbols (functions, classes, types, etc.) in a TypeScript/JavaScript file',
+      inputSchema: { type: 'object', properties: { file: fileProperty }, required: ['file'] },
+      call: async (args) => getDocumentSymbols(requireString(args, 'file'), { client: await getClient() }),
+    },
+    {
+      name: 'lsp-analyze',
+      description: 'Run several analyses on one TypeScript/JavaScript file in a single call',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          file: fileProperty,
+          symbols: { type: 'boolean', description: 'List all symbols' },
+          exports: { type: 'boolean', description: 'List exported symbols' },
+          hover: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Positions (line:char) or symbol paths to get type info for',
+          },
+          refs: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Positions (line:char) or symbol paths to find references for',
+          },
+        },
+        required: ['file'],
+      },
+      call: async (args) => {
+        const file = requireString(args, 'file')
+        const options = {
+          symbols: args.symbols === true,
+          exports: args.exports === true,
+          hover: getStringArray(args, 'hover'),
+          refs: getStringArray(args, 'refs'),
+        }
+        return withDocument(file, { client: await getClient() }, ({ client, uri }) =>
+          analyzeDocument({ client, uri, file, options }),
+        )
+      },
+    },
+    {
+      name: 'validate-skill',
+      description: 'Validate skill directories against the AgentSkills specification',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          paths: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Skill directories or directories containing skills (default: .claude/skills)',
+          },
+        },
+      },
+      call: (args) => validateSkillPaths(getStringArray(args, 'paths') ?? ['.claude/skills']),
+    },
+  ]
+
+  const stop = async () => {
+    if (!clientPromise) return
+    const client = await clientPromise.catch(() => undefined)
+    await client?.stop()
+  }
+
+  return { tools, stop }
+}
+
+/**
+ * Start a Model Context Protocol server on stdio
+ *
+ * @param args - Command line arguments [--server <preset|command>]
+ */
+export const mcpServer = async (args: string[]) => {
+  const { values } = parseArgs({
+    args,
+    options: {
+      server: { type: 'string' },
+    },
+  })
+
+  const rootUri = `file://${process.cwd()}`
+  const { tools, stop } = createTools(rootUri, values.server)
+  const toolsByName = new Map(tools.map((tool) => [tool.name, tool]))
+
+  const send = (message: JsonRpcResponse) => {
+    process.stdout.write(`${JSON.stringify(message)}\n`)
+  }
+
+  const callTool = async (params: { name?: string; arguments?: ToolArguments }) => {
+    const tool = params.name ? toolsByName.get(params.name) : undefined
+    if (!tool) return undefined
+
+    try {
+      const result = await tool.call(params.arguments ?? {})
+      return { content: [{ type: 'text', text: JSON.stringify(result ?? null, null, 2) }] }
+    } catch (error) {
+      const text =
+        error instanceof AmbiguousSymbolError
+          ? JSON.stringify({ symbol: error.symbol, candidates: error.candidates }, null, 2)
+          : error instanceof Error
+            ? error.message
+            : String(error)
+      return { content: [{ type: 'text', text }], isError: true }
+    }
+  }
+
+  const handleRequest = async ({ id, method, params }: JsonRpcRequest) => {
+    switch (method) {
+      case 'initialize': {
+        const requested = (params as { protocolVersion?: string } | undefined)?.protocolVersion
+        send({
+          jsonrpc: '2.0',
+          id,
+          result: {
+            protocolVersion:
+              requested && SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : SUPPORTED_PROTOCOL_VERSIONS[0],
+            capabilities: { tools: {} },
+            serverInfo: { name: pkg.name, version: pkg.version },
+          },
+        })
+        return
+      }
+      case 'ping':
+        send({ jsonrpc: '2.0', id, result: {} })
+        return
+      case 'tools/list':
+        send({
+          jsonrpc: '2.0',
+          id,
+          result: {
+            tools: tools.map(({ name, description, inputSchema }) => ({ name, description, inputSchema })),
+          },
+        })
+        return
+      case 'tools/call': {
+        const callParams = (params ?? {}) as { name?: string; arguments?: ToolArguments }
+        const result = await callTool(callParams)
+        if (result) {
+          send({ jsonrpc: '2.0', id, result })
+        } else {
+          send({ jsonrpc: '2.0', id, error: { code: -32602, message: `Unknown tool: ${callParams.name}` } })
+        }
+        return
+      }
+      default:
+        send({ jsonrpc: '2.0', id, error: { code: -32601, message: `Method not found: ${method}` } })
+    }
+  }
+
+  // Tool calls share one client and open documents, so handle requests one at a time
+  let queue = Promise.resolve()
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return
+
+    let message: Partial<JsonRpcRequest>
+    try {
+      message = JSON.parse(line)
+    } catch {
+      send({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } })
+      return
+    }
+
+    // Batches are not supported, so anything but a single object is invalid
+    if (typeof message !== 'object' || message === null || Array.isArray(message)) {
+      send({ jsonrpc: '2.0', id: null, error: { code: -32600, message: 'Invalid Request' } })
+      return
+    }
+
+    // Notifications (e.g. notifications/initialized) and client responses need no reply
+    if (typeof message.method !== 'string' || message.id === undefined) return
+    const request = message as JsonRpcRequest
+
+    queue = queue.then(() =>
+      handleRequest(request).catch((error) => {
+        send({ jsonrpc: '2.0', id: request.id, error: { code: -32603, message: String(error) } })
+      }),
+    )
+  }
+
+  const decoder = new TextDecoder()
+  let buffer = ''
+  for await (const chunk of process.stdin) {
+    buffer += decoder.decode(chunk, { stream: true })
+    let newline = buffer.indexOf('\n')
+    while (newline !== -1) {
+      handleLine(buffer.slice(0, newline))
+      buffer = buffer.slice(newline + 1)
+      newline = buffer.indexOf('\n')
+    }
+  }
+  handleLine(buffer)
+
+  await queue
+  await stop()
+}
+
+// Keep executable entry point for direct execution
+if (import.meta.main) {
+  handleInterrupts()
+  await mcpServer(Bun.argv.slice(2))
+}
@@ -0,0 +1,134 @@
+/**
+ * Resolve the export table of modules with the TypeScript checker
+ *
+ * @remarks
+ * The language server only reports the symbols declared in a file, so renamed
+ * exports, `export *` re-exports and `export default` expressions cannot be told
+ * apart from local declarations. The checker resolves every export through its
+ * alias chain to the declaration it originates from.
+ *
+ * @internal
+ */
+
+import { dirname, relative } from 'node:path'
+import ts from 'typescript'
+
+/**
+ * One entry of a module's export table
+ *
+ * @remarks
+ * `name` is the exported name (`default` for the default export). `localName`,
+ * `file`, `line` and `character` (0-indexed, at the declared name) describe the
+ * declaration it resolves to, which may be in another module; `localName` is `*`
+ * for `export * as ns`. `typeOnly` is set for types and for names exported with
+ * `export type`.
+ */
+export type ModuleExport = {
+  name: string
+  localName: string
+  kind: string
+  file: string
+  line: number
+  character: number
+  typeOnly: boolean
+}
+
+const symbolKinds: [ts.SymbolFlags, string][] = [
+  [ts.SymbolFlags.Class, 'Class'],
+  [ts.SymbolFlags.Interface, 'Interface'],
+  [ts.SymbolFlags.TypeAlias, 'TypeAlias'],
+  [ts.SymbolFlags.Enum, 'Enum'],
+  [ts.SymbolFlags.Function, 'Function'],
+  [ts.SymbolFlags.Module, 'Namespace'],
+  [ts.SymbolFlags.BlockScopedVariable, 'Constant'],
+  [ts.SymbolFlags.Variable, 'Variable'],
+]
+
+const getKind = (symbol: ts.Symbol, declaration: ts.Declaration | undefined): string => {
+  if (declaration && ts.isSourceFile(declaration)) return 'Module'
+  if (declaration && ts.isExportAssignment(declaration)) return 'Expression'
+  if (declaration && ts.isVariableDeclaration(declaration)) {
+    return ts.getCombinedNodeFlags(declaration) & ts.NodeFlags.Const ? 'Constant' : 'Variable'
+  }
+  return symbolKinds.find(([flag]) => symbol.flags & flag)?.[1] ?? 'Unknown'
+}
+
+/**
+ * Create a program for analyzing files, using the nearest `tsconfig.json` options
+ *
+ * @param files - Absolute paths of the files to analyze
+ * @param texts - Contents to analyze instead of the files on disk, keyed by absolute path
+ */
+export const createExportsProgram = (files: string[], texts = new Map<string, string>()): ts.Program => {
+  const configPath = files[0] && ts.findConfigFile(dirname(files[0]), ts.sys.fileExists)
+  let options: ts.CompilerOptions = { allowJs: true, allowImportingTsExtensions: true, noEmit: true }
+
+  if (configPath) {
+    const parsed = ts.getParsedCommandLineOfConfigFile(
+      configPath,
+      {},
+      { ...ts.sys, onUnRecoverableConfigFileDiagnostic: () => {} },
+    )
+    if (parsed) options = { ...parsed.options, noEmit: true }
+  }
+
+  const host = ts.createCompilerHost(options)
+  const { fileExists, readFile } = host
+  host.fileExists = (fileName) => texts.has(fileName) || fileExists(fileName)
+  host.readFile = (fileName) => texts.get(fileName) ?? readFile(fileName)
+
+  return ts.createProgram(files, options, host)
+}
+
+/**
+ * Get the resolved export table of a module
+ *
+ * @param options - Program containing the file, absolute path of the file, and the
+ *   directory origin file paths are relative to
+ * @returns Exports in checker order, empty when the file is not a module
+ */
+export const getModuleExports = ({
+  program,
+  file,
+  cwd = process.cwd(),
+}: {
+  program: ts.Program
+  file: string
+  cwd?: string
+}): ModuleExport[] => {
+  const checker = program.getTypeChecker()
+  const sourceFile = program.getSourceFile(file)
+  const moduleSymbol = sourceFile && checker.getSymbolAtLocation(sourceFile)
+  if (!moduleSymbol) return []
+
+  return checker.getExportsOfModule(moduleSymbol).map((symbol) => {
+    // Follow the alias chain, noting any `export type`/`import type` along the way
+    let typeOnlyAlias = false
+    let resolved = symbol
+    while (resolved.flags & ts.SymbolFlags.Alias) {
+      typeOnlyAlias ||= (resolved.declarations ?? []).some(ts.isTypeOnlyImportOrExportDeclaration)
+      const next = checker.getImmediateAliasedSymbol(resolved)
+      if (!next || next === resolved) break
+      resolved = next
+    }
+
+    const declaration = resolved.declarations?.[0]
+    const declarationFile = declaration?.getSourceFile() ?? sourceFile
+    const nameNode = declaration && (ts.getNameOfDeclaration(declaration) ?? declaration)
+    const isModule = declaration !== undefined && ts.isSourceFile(declaration)
+    const { line, character } =
+      nameNode && !isModule
+        ? declarationFile.getLineAndCharacterOfPosition(nameNode.getStart())
+        : { line: 0, character: 0 }
+
+    return {
+      name: symbol.name,
+      localName: isModule ? '*' : resolved.name,
+      kind: getKind(resolved, declaration),
+      file: relative(cwd, declarationFile.fileName),
+      line,
+      character,
+      typeOnly: typeOnlyAlias || !(resolved.flags & ts.SymbolFlags.Value),
+    }
+  })
+}
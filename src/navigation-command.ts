@@ -0,0 +1,87 @@
+/**
+ * Shared command line of the navigation commands
+ *
+ * @remarks
+ * `lsp-def`, `lsp-type-def` and `lsp-impl` take the same arguments and print the
+ * same locations; only the query differs.
+ *
+ * @internal
+ */
+
+import { parseArgs } from 'node:util'
+import { documentContentOptions, hasProposedContent, readDocumentText } from './document-content.ts'
+import { getInterruptSignal } from './interrupt-signal.ts'
+import type { findDefinition } from './lsp-queries.ts'
+import { OUTPUT_FORMATS, parseOutputFormat, printQueryError, printResult } from './output-format.ts'
+import { resolveFilePath } from './resolve-file-path.ts'
+import { parseSymbolPath } from './resolve-symbol-position.ts'
+
+/**
+ * Create a command that prints the locations a query finds for a position or symbol
+ *
+ * @param options - Command name for the usage text, and the query to run
+ * @returns Command taking arguments [file, line, character] or [file#Symbol.path]
+ */
+export const createNavigationCommand =
+  ({ name, find }: { name: string; find: typeof findDefinition }) =>
+  async (args: string[]) => {
+    const { values, positionals } = parseArgs({
+      args,
+      options: {
+        ...documentContentOptions,
+        server: { type: 'string' },
+        format: { type: 'string', default: 'json' },
+      },
+      allowPositionals: true,
+    })
+
+    const format = parseOutputFormat(values.format)
+    if (!format) {
+      console.error(`Error: format must be one of ${OUTPUT_FORMATS.join(', ')}`)
+      process.exit(1)
+    }
+
+    const [target, lineStr, charStr] = positionals
+    const symbolPath = target ? parseSymbolPath(target) : undefined
+
+    if (!target || (!symbolPath && (!lineStr || !charStr))) {
+      console.error(`Usage: ${name} <file> <line> <character>`)
+      console.error(`       ${name} <file#Symbol.path>`)
+      console.error('  file: Path to TypeScript/JavaScript file')
+      console.error('  line: Line number (0-indexed)')
+      console.error('  character: Character position (0-indexed)')
+      console.error('  Symbol.path: Dotted symbol name, e.g. src/app.ts#ConfigManager.load')
+      console.error('  --format: Output format: json (default), text, compact or markdown')
+      console.error('  --server: Language server preset or command (default: typescript-language-server)')
+      console.error('  --stdin, --content-file <path>: Query these contents instead of the file on disk')
+      process.exit(1)
+    }
+
+    const line = parseInt(lineStr ?? '', 10)
+    const character = parseInt(charStr ?? '', 10)
+
+    if (!symbolPath && (Number.isNaN(line) || Number.isNaN(character))) {
+      console.error('Error: line and character must be numbers')
+      process.exit(1)
+    }
+
+    const absolutePath = resolveFilePath(symbolPath?.filePath ?? target)
+    const { text, source } = await readDocumentText(absolutePath, values)
+    if (text === undefined) {
+      console.error(`Error: File not found: ${source}`)
+      process.exit(1)
+    }
+
+    try {
+      const result = await find(absolutePath, symbolPath ? { symbol: symbolPath.symbol } : { line, character }, {
+        server: values.server,
+        text: hasProposedContent(values) ? text : undefined,
+        signal: getInterruptSignal(),
+      })
+
+      await printResult(result, format)
+    } catch (error) {
+      await printQueryError(error, format)
+      process.exit(1)
+    }
+  }
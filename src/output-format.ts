@@ -0,0 +1,280 @@
+/**
+ * Render command results as JSON, text, compact JSON or markdown
+ *
+ * @remarks
+ * `json` prints results as they are, with protocol shapes and 0-indexed positions.
+ * The other formats first simplify them: `file://` URIs become relative paths,
+ * locations become 1-indexed `path:line:col`, markup becomes its text, numeric
+ * symbol kinds become names, and empty values are dropped. `text` and `markdown`
+ * then print an indented outline with the source line of every location.
+ *
+ * @internal
+ */
+
+import { isAbsolute, relative, resolve } from 'node:path'
+import { AmbiguousSymbolError, FileNotFoundError, SymbolNotFoundError } from './lsp-queries.ts'
+import type { Position } from './lsp-types.ts'
+import { symbolKindNames } from './symbol-kinds.ts'
+import { uriToPath } from './workspace-edit.ts'
+
+export type OutputFormat = 'json' | 'text' | 'compact' | 'markdown'
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['json', 'text', 'compact', 'markdown']
+
+/**
+ * A position in a file, printed as `path:line:col` with 1-indexed line and column
+ */
+class SourceLocation {
+  path: string
+  absolutePath: string
+  position: Position
+
+  constructor(path: string, position: Position, cwd: string) {
+    this.absolutePath = resolve(cwd, path)
+    this.path = isAbsolute(path) ? relative(cwd, path) : path
+    this.position = position
+  }
+
+  toString() {
+    return `${this.path}:${this.position.line + 1}:${this.position.character + 1}`
+  }
+
+  toJSON() {
+    return this.toString()
+  }
+}
+
+/** Keys that only locate a result and are replaced by `location` */
+const LOCATION_KEYS = new Set([
+  'uri',
+  'targetUri',
+  'file',
+  'range',
+  'selectionRange',
+  'targetRange',
+  'targetSelectionRange',
+  'originSelectionRange',
+  'line',
+  'character',
+])
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isPosition = (value: unknown): value is Position =>
+  isRecord(value) && typeof value.line === 'number' && typeof value.character === 'number'
+
+const isRange = (value: unknown): value is { start: Position; end: Position } =>
+  isRecord(value) && isPosition(value.start) && isPosition(value.end)
+
+const formatRange = ({ start, end }: { start: Position; end: Position }) =>
+  `${start.line + 1}:${start.character + 1}-${end.line + 1}:${end.character + 1}`
+
+/**
+ * Parse a `--format` value
+ *
+ * @returns The format, or `undefined` for unknown values
+ */
+export const parseOutputFormat = (value: string): OutputFormat | undefined =>
+  OUTPUT_FORMATS.find((format) => format === value)
+
+/**
+ * Replace protocol shapes with plain values
+ *
+ * @remarks
+ * Empty arrays are dropped below the top level, where they are mostly empty
+ * `children` and the like; at the top level they are a result.
+ *
+ * @param value - Command result
+ * @param cwd - Directory paths are made relative to
+ */
+export const simplifyResult = (value: unknown, cwd: string, nested = false): unknown => {
+  if (typeof value === 'string') {
+    return value.startsWith('file://') ? relative(cwd, uriToPath(value)) : value
+  }
+  if (Array.isArray(value)) return value.map((item) => simplifyResult(item, cwd, true))
+  if (!isRecord(value)) return value
+  if (isRange(value)) return formatRange(value)
+
+  // MarkupContent and MarkedString
+  const keys = Object.keys(value)
+  if (typeof value.value === 'string' && keys.every((key) => key === 'kind' || key === 'language' || key === 'value')) {
+    return value.value.trim()
+  }
+
+  const uri = [value.uri, value.targetUri].find((candidate) => typeof candidate === 'string')
+  const path = uri ? uriToPath(uri as string) : typeof value.file === 'string' ? value.file : undefined
+  const range = [value.targetSelectionRange, value.selectionRange, value.range].find(isRange)
+  const position =
+    range?.start ??
+    (typeof value.line === 'number'
+      ? { line: value.line, character: typeof value.character === 'number' ? value.character : 0 }
+      : undefined)
+
+  const result: Record<string, unknown> = {}
+  let located = false
+  if (path !== undefined && position) {
+    result.location = new SourceLocation(path, position, cwd)
+    located = true
+  }
+
+  for (const [key, child] of Object.entries(value)) {
+    if (located && LOCATION_KEYS.has(key)) continue
+    if (child === null || child === undefined || child === '') continue
+    if (nested && Array.isArray(child) && child.length === 0) continue
+    if (key === 'kind' && typeof child === 'number' && typeof value.name === 'string') {
+      result.kind = symbolKindNames[child] || `Unknown(${child})`
+    } else {
+      result[key] = simplifyResult(child, cwd, true)
+    }
+  }
+
+  // A bare location, such as the result of `textDocument/definition`
+  const entries = Object.keys(result)
+  return located && entries.length === 1 ? result.location : result
+}
+
+const collectLocations = (value: unknown, locations: SourceLocation[] = []): SourceLocation[] => {
+  if (value instanceof SourceLocation) locations.push(value)
+  else if (Array.isArray(value)) for (const item of value) collectLocations(item, locations)
+  else if (isRecord(value)) for (const child of Object.values(value)) collectLocations(child, locations)
+  return locations
+}
+
+/**
+ * Read the source line of every location, keyed by `path:line:col`
+ *
+ * @param value - Simplified result
+ * @param texts - Contents to read instead of the files on disk, keyed by absolute path
+ */
+const readSnippets = async (value: unknown, texts: Map<string, string>): Promise<Map<string, string>> => {
+  const files = new Map<string, string[] | undefined>()
+  const snippets = new Map<string, string>()
+
+  for (const location of collectLocations(value)) {
+    if (!files.has(location.absolutePath)) {
+      const file = Bun.file(location.absolutePath)
+      const text = texts.get(location.absolutePath) ?? ((await file.exists()) ? await file.text() : undefined)
+      files.set(location.absolutePath, text?.split('\n'))
+    }
+    const line = files.get(location.absolutePath)?.[location.position.line]?.trim()
+    if (line) snippets.set(location.toString(), line)
+  }
+
+  return snippets
+}
+
+const isScalar = (value: unknown) => value instanceof SourceLocation || (!Array.isArray(value) && !isRecord(value))
+
+const renderText = (value: unknown, snippets: Map<string, string>): string[] => {
+  const scalar = (item: unknown) => {
+    if (item instanceof SourceLocation) {
+      const snippet = snippets.get(item.toString())
+      return snippet ? `${item}  ${snippet}` : item.toString()
+    }
+    return String(item)
+  }
+  const indent = (lines: string[]) => lines.map((line) => `  ${line}`)
+
+  if (typeof value === 'string' && value.includes('\n')) return value.split('\n')
+  if (isScalar(value)) return [scalar(value)]
+
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => {
+      if (isScalar(item)) return renderText(item, snippets)
+      const [first = '', ...rest] = renderText(item, snippets)
+      return [`- ${first}`, ...indent(rest)]
+    })
+  }
+
+  return Object.entries(value as Record<string, unknown>).flatMap(([key, child]) => {
+    if (Array.isArray(child) && child.length === 0) return [`${key}: []`]
+    const lines = renderText(child, snippets)
+    return isScalar(child) && lines.length === 1 ? [`${key}: ${lines[0]}`] : [`${key}:`, ...indent(lines)]
+  })
+}
+
+const renderMarkdown = (value: unknown, snippets: Map<string, string>): string[] => {
+  const scalar = (item: unknown) => {
+    if (item instanceof SourceLocation) {
+      const snippet = snippets.get(item.toString())
+      return snippet ? `\`${item}\` — \`${snippet}\`` : `\`${item}\``
+    }
+    return String(item)
+  }
+  const indent = (lines: string[]) => lines.map((line) => (line ? `  ${line}` : line))
+
+  if (typeof value === 'string' && value.includes('\n')) {
+    // Hover contents are markdown already; other text is source
+    const block = value.includes('```') ? value : `\`\`\`\n${value}\n\`\`\``
+    return ['', ...block.split('\n'), '']
+  }
+  if (isScalar(value)) return [scalar(value)]
+
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => {
+      const [first = '', ...rest] = renderMarkdown(item, snippets)
+      // The first field of an object heads its entry and the others nest under it
+      return isRecord(item) ? [first, ...indent(rest)] : [`- ${first}`, ...indent(rest)]
+    })
+  }
+
+  return Object.entries(value as Record<string, unknown>).flatMap(([key, child]) => {
+    if (Array.isArray(child) && child.length === 0) return [`- **${key}**: none`]
+    const lines = renderMarkdown(child, snippets)
+    return isScalar(child) && lines.length === 1 ? [`- **${key}**: ${lines[0]}`] : [`- **${key}**:`, ...indent(lines)]
+  })
+}
+
+/**
+ * Render a command result
+ *
+ * @param result - Value a command prints
+ * @param format - Output format
+ * @param cwd - Directory paths are made relative to
+ * @param texts - Contents to read snippets from instead of the files on disk, keyed by absolute path
+ */
+export const formatOutput = async (
+  result: unknown,
+  format: OutputFormat,
+  cwd = process.cwd(),
+  texts = new Map<string, string>(),
+): Promise<string> => {
+  if (format === 'json') return JSON.stringify(result, null, 2)
+
+  const simplified = simplifyResult(result, cwd)
+  if (format === 'compact') return JSON.stringify(simplified) ?? 'null'
+
+  const snippets = await readSnippets(simplified, texts)
+  return (format === 'text' ? renderText : renderMarkdown)(simplified, snippets).join('\n')
+}
+
+/**
+ * Print a command result to stdout
+ *
+ * @param texts - Proposed contents to read snippets from, keyed by absolute path
+ */
+export const printResult = async (
+  result: unknown,
+  format: OutputFormat,
+  texts?: Map<string, string>,
+): Promise<void> => {
+  console.log(await formatOutput(result, format, process.cwd(), texts))
+}
+
+/**
+ * Print a failed query the way the position commands report it
+ *
+ * @remarks
+ * Candidates of an ambiguous symbol go to stdout in `format`, so a script can pick one;
+ * other failures go to stderr.
+ */
+export const printQueryError = async (error: unknown, format: OutputFormat): Promise<void> => {
+  if (error instanceof AmbiguousSymbolError) {
+    await printResult({ symbol: error.symbol, candidates: error.candidates }, format)
+  } else if (error instanceof SymbolNotFoundError || error instanceof FileNotFoundError) {
+    console.error(`Error: ${error.message}`)
+  } else {
+    console.error('Error:', error)
+  }
+}
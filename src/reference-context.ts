@@ -0,0 +1,194 @@
+/**
+ * Attach source lines and usage kinds to reference locations
+ *
+ * @remarks
+ * `textDocument/references` only returns locations. The usage kind comes from the
+ * syntax around each location, so it needs no type information and works on files
+ * the server has not opened.
+ *
+ * @internal
+ */
+
+import ts from 'typescript'
+import type { Location, Position } from './lsp-types.ts'
+import { uriToPath } from './workspace-edit.ts'
+
+/**
+ * How a reference uses its symbol
+ *
+ * @remarks
+ * `declaration` is the name in a declaration, `type` a use in a type position,
+ * `call` the callee of a call or `new`, and `write` the target of an assignment
+ * or increment. `read` is any other use.
+ */
+export type ReferenceKind = 'declaration' | 'import' | 'export' | 'type' | 'call' | 'write' | 'read'
+
+/**
+ * A reference with its usage kind, its source line, and the lines around it
+ */
+export type ReferenceWithContext = Location & {
+  kind: ReferenceKind
+  text: string
+  before?: string[]
+  after?: string[]
+}
+
+/** Declarations whose `name` is the declared symbol */
+const DECLARATION_KINDS = new Set([
+  ts.SyntaxKind.VariableDeclaration,
+  ts.SyntaxKind.FunctionDeclaration,
+  ts.SyntaxKind.FunctionExpression,
+  ts.SyntaxKind.ClassDeclaration,
+  ts.SyntaxKind.ClassExpression,
+  ts.SyntaxKind.InterfaceDeclaration,
+  ts.SyntaxKind.TypeAliasDeclaration,
+  ts.SyntaxKind.EnumDeclaration,
+  ts.SyntaxKind.EnumMember,
+  ts.SyntaxKind.ModuleDeclaration,
+  ts.SyntaxKind.MethodDeclaration,
+  ts.SyntaxKind.MethodSignature,
+  ts.SyntaxKind.PropertyDeclaration,
+  ts.SyntaxKind.PropertySignature,
+  ts.SyntaxKind.PropertyAssignment,
+  ts.SyntaxKind.GetAccessor,
+  ts.SyntaxKind.SetAccessor,
+  ts.SyntaxKind.Parameter,
+  ts.SyntaxKind.BindingElement,
+  ts.SyntaxKind.TypeParameter,
+])
+
+/**
+ * Find the innermost node at a position, with its ancestors
+ */
+const getNodePath = (sourceFile: ts.SourceFile, { line, character }: Position): ts.Node[] => {
+  const offset = sourceFile.getPositionOfLineAndCharacter(line, character)
+  const path: ts.Node[] = []
+  let node: ts.Node | undefined = sourceFile
+
+  while (node) {
+    path.push(node)
+    node = node.forEachChild((child) =>
+      child.getStart(sourceFile) <= offset && offset < child.getEnd() ? child : undefined,
+    )
+  }
+
+  return path
+}
+
+/**
+ * Classify how the name at a position is used
+ *
+ * @param sourceFile - Parsed file containing the reference
+ * @param position - Start of the referenced name
+ */
+export const getReferenceKind = (sourceFile: ts.SourceFile, position: Position): ReferenceKind => {
+  const path = getNodePath(sourceFile, position)
+  const name = path.at(-1)
+  const parent = path.at(-2)
+  if (!name || !parent || !(ts.isIdentifier(name) || ts.isPrivateIdentifier(name))) return 'read'
+
+  if (path.some((node) => ts.isImportDeclaration(node) || ts.isImportEqualsDeclaration(node))) {
+    return 'import'
+  }
+  if (
+    path.some((node) => ts.isExportDeclaration(node)) ||
+    (ts.isExportAssignment(parent) && parent.expression === name)
+  ) {
+    return 'export'
+  }
+  if (DECLARATION_KINDS.has(parent.kind) && (parent as ts.NamedDeclaration).name === name) return 'declaration'
+
+  // Qualified names such as `ns.Type` and `obj.method` are used as a whole
+  let target: ts.Node = name
+  for (let index = path.length - 2; index >= 0; index--) {
+    const node = path[index]!
+    if (
+      (ts.isQualifiedName(node) && node.right === target) ||
+      (ts.isPropertyAccessExpression(node) && node.name === target)
+    ) {
+      target = node
+    } else {
+      break
+    }
+  }
+  const user = path[path.indexOf(target) - 1]
+  if (!user) return 'read'
+
+  if (ts.isExpressionWithTypeArguments(user)) {
+    const clause = user.parent
+    // `extends` of a class is a value; `implements` and interface `extends` are types
+    return ts.isHeritageClause(clause) &&
+      (clause.token === ts.SyntaxKind.ImplementsKeyword || ts.isInterfaceDeclaration(clause.parent))
+      ? 'type'
+      : 'read'
+  }
+  if (ts.isTypeNode(user)) return 'type'
+  if ((ts.isCallOrNewExpression(user) || ts.isDecorator(user)) && user.expression === target) return 'call'
+  if (ts.isTaggedTemplateExpression(user) && user.tag === target) return 'call'
+  if (
+    ts.isBinaryExpression(user) &&
+    user.left === target &&
+    user.operatorToken.kind >= ts.SyntaxKind.FirstAssignment &&
+    user.operatorToken.kind <= ts.SyntaxKind.LastAssignment
+  ) {
+    return 'write'
+  }
+  if (
+    (ts.isPrefixUnaryExpression(user) || ts.isPostfixUnaryExpression(user)) &&
+    (user.operator === ts.SyntaxKind.PlusPlusToken || user.operator === ts.SyntaxKind.MinusMinusToken)
+  ) {
+    return 'write'
+  }
+
+  return 'read'
+}
+
+/**
+ * Add the usage kind, source line and surrounding lines to references
+ *
+ * @param locations - Normalized reference locations
+ * @param options - Number of lines to include before and after each reference,
+ *   and contents to read instead of the files on disk, keyed by absolute path
+ * @returns References in the same order; files that cannot be read get empty text
+ */
+export const addReferenceContext = async (
+  locations: Location[],
+  { context = 0, texts = new Map<string, string>() }: { context?: number; texts?: Map<string, string> } = {},
+): Promise<ReferenceWithContext[]> => {
+  const sourceFiles = new Map<string, ts.SourceFile | undefined>()
+  const getSourceFile = async (path: string) => {
+    if (!sourceFiles.has(path)) {
+      const file = Bun.file(path)
+      const text = texts.get(path) ?? ((await file.exists()) ? await file.text() : undefined)
+      sourceFiles.set(
+        path,
+        text === undefined ? undefined : ts.createSourceFile(path, text, ts.ScriptTarget.Latest, true),
+      )
+    }
+    return sourceFiles.get(path)
+  }
+
+  const result: ReferenceWithContext[] = []
+  for (const location of locations) {
+    const sourceFile = await getSourceFile(uriToPath(location.uri))
+    if (!sourceFile) {
+      result.push({ ...location, kind: 'read', text: '' })
+      continue
+    }
+
+    const lines = sourceFile.text.split('\n')
+    const { line } = location.range.start
+    const reference: ReferenceWithContext = {
+      ...location,
+      kind: getReferenceKind(sourceFile, location.range.start),
+      text: lines[line] ?? '',
+    }
+    if (context > 0) {
+      reference.before = lines.slice(Math.max(line - context, 0), line)
+      reference.after = lines.slice(line + 1, line + 1 + context)
+    }
+    result.push(reference)
+  }
+
+  return result
+}
@@ -18,10 +18,11 @@ const hasSourceExtension = (path: string): boolean => /\.(tsx?|jsx?|mjs|cjs|json
  * - Package specifiers: `@org/pkg`, `lodash`, `typescript/lib/typescript.js`
  * - Relative without extension: `./testing` (for package.json exports)
  * - Implicit relative: `src/foo.ts` (fails Bun.resolveSync, falls back to cwd)
+ *
+ * @param filePath - Path or package specifier
+ * @param cwd - Directory relative paths are resolved against
  */
-export const resolveFilePath = (filePath: string): string => {
-  const cwd = process.cwd()
-
+export const resolveFilePath = (filePath: string, cwd = process.cwd()): string => {
   // Absolute path - return as-is
   if (filePath.startsWith('/')) {
     return filePath
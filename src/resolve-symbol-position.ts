@@ -0,0 +1,93 @@
+/**
+ * Resolution of `file#Symbol.path` arguments to positions
+ *
+ * @remarks
+ * Commands accept a dotted symbol path in place of a line and character. The path
+ * is matched against the document symbols of the open file, and each match is
+ * positioned at its name, where hover, definition and reference requests expect it.
+ */
+
+import { normalizeDocumentSymbols } from './document-symbols.ts'
+import type { LspClient } from './lsp-client.ts'
+import type { DocumentSymbol } from './lsp-types.ts'
+import { symbolKindNames } from './symbol-kinds.ts'
+
+/**
+ * A symbol that matches a symbol path, positioned at its name
+ */
+export type SymbolCandidate = {
+  symbol: string
+  kind: string
+  line: number
+  character: number
+}
+
+/**
+ * Split a `file#Symbol.path` argument into file path and symbol path
+ *
+ * @remarks
+ * Splits at the first `#`, so private members such as `file.ts#Class.#field` work.
+ *
+ * @returns `undefined` when the argument has no symbol path
+ */
+export const parseSymbolPath = (arg: string): { filePath: string; symbol: string } | undefined => {
+  const index = arg.indexOf('#')
+  if (index <= 0 || index === arg.length - 1) return undefined
+  return { filePath: arg.slice(0, index), symbol: arg.slice(index + 1) }
+}
+
+const flattenSymbols = (symbols: DocumentSymbol[], prefix = ''): SymbolCandidate[] => {
+  const result: SymbolCandidate[] = []
+  for (const sym of symbols) {
+    const path = prefix ? `${prefix}.${sym.name}` : sym.name
+    result.push({
+      symbol: path,
+      kind: symbolKindNames[sym.kind] || `Unknown(${sym.kind})`,
+      line: sym.selectionRange.start.line,
+      character: sym.selectionRange.start.character,
+    })
+    if (sym.children) {
+      result.push(...flattenSymbols(sym.children, path))
+    }
+  }
+  return result
+}
+
+/**
+ * Find document symbols matching a dotted symbol path
+ *
+ * @remarks
+ * Exact matches on the full path (e.g. `ConfigManager.load`) win. Otherwise any
+ * symbol whose path ends with the given path matches, so `load` finds
+ * `ConfigManager.load`. More than one candidate means the path is ambiguous.
+ *
+ * @param symbols - Raw `textDocument/documentSymbol` result
+ * @param symbolPath - Dotted path such as `ConfigManager.load`
+ * @param text - Text of the document, which locates the names of flat symbols
+ * @returns All matching candidates, empty if none match
+ */
+export const findSymbolCandidates = (symbols: unknown, symbolPath: string, text?: string): SymbolCandidate[] => {
+  const all = flattenSymbols(normalizeDocumentSymbols(symbols, text))
+
+  const exact = all.filter((candidate) => candidate.symbol === symbolPath)
+  if (exact.length > 0) return exact
+
+  return all.filter((candidate) => candidate.symbol.endsWith(`.${symbolPath}`))
+}
+
+/**
+ * Resolve a symbol path to candidate positions in an open document
+ *
+ * @param options - Running client, URI of an open document, and dotted symbol path
+ * @returns All matching candidates, empty if none match
+ */
+export const resolveSymbolPosition = async ({
+  client,
+  uri,
+  symbol,
+}: {
+  client: LspClient
+  uri: string
+  symbol: string
+}): Promise<SymbolCandidate[]> =>
+  findSymbolCandidates(await client.documentSymbols(uri), symbol, client.getDocumentText(uri))
@@ -0,0 +1,155 @@
+/**
+ * Language server backends the LSP commands can run against
+ *
+ * @remarks
+ * A backend is picked with `--server`, or with `server` in `development-skills.json`
+ * at the workspace root, and defaults to typescript-language-server. The value is a
+ * preset name or a command line. The config file may also give a full preset object.
+ *
+ * A config file comes with the repository, so it only names presets unless
+ * `DEVELOPMENT_SKILLS_ALLOW_SERVER_COMMAND=1` allows it to run other commands; otherwise
+ * cloning a repository and querying it would run whatever its config file says.
+ *
+ * Presets do not list per-server capability quirks. Servers differ in the requests they
+ * support, and the commands check the capabilities a server announces in its `initialize`
+ * result instead, as `lsp-rename` does for `prepareRename`.
+ *
+ * @internal
+ */
+
+import { join } from 'node:path'
+
+/**
+ * How to start and talk to a language server
+ */
+export type ServerPreset = {
+  /** Command that runs the server over stdio */
+  command: string[]
+  /** `initializationOptions` of the `initialize` request */
+  initializationOptions?: unknown
+  /** Answers to `workspace/configuration`, by section (e.g. `deno` or `typescript.preferences`) */
+  settings?: Record<string, unknown>
+}
+
+/** Name of the config file read from the workspace root */
+export const SERVER_CONFIG_FILE = 'development-skills.json'
+
+/** Preset used when neither `--server` nor the config file names one */
+export const DEFAULT_SERVER = 'typescript-language-server'
+
+/** Environment variable that lets the config file run commands other than the presets */
+export const SERVER_COMMAND_ENV = 'DEVELOPMENT_SKILLS_ALLOW_SERVER_COMMAND'
+
+/**
+ * Built-in backends
+ *
+ * @remarks
+ * npm-installed servers run through `bun` so the project's own version is used.
+ * Deno's server only handles files once it is enabled, and reads its settings
+ * through `workspace/configuration` as well as `initializationOptions`.
+ */
+export const SERVER_PRESETS: Record<string, ServerPreset> = {
+  'typescript-language-server': {
+    command: ['bun', 'typescript-language-server', '--stdio'],
+  },
+  vtsls: {
+    command: ['bun', 'vtsls', '--stdio'],
+    settings: { vtsls: { autoUseWorkspaceTsdk: true } },
+  },
+  tsgo: {
+    command: ['bun', 'tsgo', '--lsp', '--stdio'],
+  },
+  deno: {
+    command: ['deno', 'lsp'],
+    initializationOptions: { enable: true, lint: true },
+    settings: { deno: { enable: true, lint: true } },
+  },
+}
+
+/**
+ * Turn a preset name or command line into a preset
+ *
+ * @param server - Preset name, or a command split on whitespace
+ */
+export const parseServer = (server: string): ServerPreset => {
+  const preset = SERVER_PRESETS[server]
+  if (preset) return preset
+
+  const command = server.trim().split(/\s+/).filter(Boolean)
+  if (command.length === 0) {
+    throw new Error('Server command is empty')
+  }
+  return { command }
+}
+
+const isServerPreset = (value: unknown): value is ServerPreset => {
+  if (typeof value !== 'object' || value === null) return false
+  const { command, settings } = value as Record<string, unknown>
+  return (
+    Array.isArray(command) &&
+    command.length > 0 &&
+    command.every((part) => typeof part === 'string') &&
+    (settings === undefined || (typeof settings === 'object' && settings !== null))
+  )
+}
+
+/**
+ * Resolve the backend for a workspace
+ *
+ * @param options - `server` from the command line, which wins over the config file in `cwd`,
+ * and whether the config file may run commands other than the presets (default: whether
+ * {@link SERVER_COMMAND_ENV} is `1`)
+ * @returns The preset to start
+ * @throws When the config file is not valid JSON, its `server` is neither a string nor a preset,
+ * or it names a command that is not allowed
+ */
+export const resolveServer = async ({
+  server,
+  cwd,
+  allowCommand = process.env[SERVER_COMMAND_ENV] === '1',
+}: {
+  server?: string
+  cwd: string
+  allowCommand?: boolean
+}): Promise<ServerPreset> => {
+  if (server !== undefined) return parseServer(server)
+
+  const path = join(cwd, SERVER_CONFIG_FILE)
+  const file = Bun.file(path)
+  if (!(await file.exists())) return SERVER_PRESETS[DEFAULT_SERVER]!
+
+  const config = (await file.json()) as { server?: unknown }
+  if (config.server === undefined) return SERVER_PRESETS[DEFAULT_SERVER]!
+  if (typeof config.server === 'string' && Object.hasOwn(SERVER_PRESETS, config.server))
+    return parseServer(config.server)
+
+  const preset = typeof config.server === 'string' ? parseServer(config.server) : config.server
+  if (!isServerPreset(preset)) {
+    throw new Error(`Invalid server in ${path}: expected a preset name, command or { command: string[] }`)
+  }
+  if (!allowCommand) {
+    throw new Error(
+      `${path} runs \`${preset.command.join(' ')}\`, which is not a preset. Set ${SERVER_COMMAND_ENV}=1 to allow it, or pass it with --server`,
+    )
+  }
+  return preset
+}
+
+/**
+ * Look up the answer to a `workspace/configuration` item
+ *
+ * @param settings - Settings of the preset
+ * @param section - Dotted section name; the whole settings object when omitted
+ * @returns The value, or `null` so the server uses its default
+ */
+export const getServerSetting = (settings: Record<string, unknown> | undefined, section?: string): unknown => {
+  if (!settings) return null
+  if (!section) return settings
+
+  let value: unknown = settings
+  for (const key of section.split('.')) {
+    if (typeof value !== 'object' || value === null || !(key in value)) return null
+    value = (value as Record<string, unknown>)[key]
+  }
+  return value
+}
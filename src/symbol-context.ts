@@ -0,0 +1,296 @@
+/**
+ * Gather the context needed to edit a symbol within a token budget
+ *
+ * @remarks
+ * A context pack holds the symbol's hover signature and TSDoc, its source, the
+ * declarations of the types its source refers to, and call sites from
+ * `textDocument/references`. Parts are added in that order until the budget is
+ * spent, so the signature is always there and call sites are the first to go.
+ * Tokens are estimated at four characters each.
+ *
+ * @internal
+ */
+
+import { relative } from 'node:path'
+import ts from 'typescript'
+import { getHoverSignature } from './api-report.ts'
+import { findSymbolsInLines } from './change-impact.ts'
+import { normalizeDocumentSymbols } from './document-symbols.ts'
+import { getHoverText } from './hover-text.ts'
+import { getLanguageId } from './language-id.ts'
+import type { LspClient } from './lsp-client.ts'
+import { normalizeLocations } from './lsp-locations.ts'
+import type { DocumentSymbol, Position, Range } from './lsp-types.ts'
+import { symbolKindNames } from './symbol-kinds.ts'
+import { isImportOrExportPosition } from './unused-exports.ts'
+import { uriToPath } from './workspace-edit.ts'
+
+/**
+ * Declaration of a type the symbol's source refers to
+ */
+export type ContextType = { name: string; file: string; line: number; source: string }
+
+/**
+ * A use of the symbol, with the symbol containing it (`null` at the top level of a module)
+ */
+export type ContextCallSite = { file: string; line: number; caller: string | null; text: string }
+
+export type SymbolContext = {
+  symbol: string
+  kind: string
+  file: string
+  range: Range
+  signature: string
+  documentation: string
+  source: string
+  truncated: boolean
+  types: ContextType[]
+  callSites: ContextCallSite[]
+  omitted: { types: number; callSites: number }
+  tokens: number
+  complete: boolean
+}
+
+/**
+ * Estimate the number of tokens in a text
+ */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4)
+
+/**
+ * Split hover contents into the signature and the documentation after it
+ */
+export const splitHover = (hover: unknown): { signature: string; documentation: string } => {
+  const signature = getHoverSignature(hover)
+  return {
+    signature,
+    documentation: getHoverText(hover)
+      .replace(/```\w*\n[\s\S]*?\n```/, '')
+      .trim(),
+  }
+}
+
+/**
+ * Find the innermost document symbol whose range contains a position, with its dotted path
+ */
+const findSymbolAt = (
+  symbols: DocumentSymbol[],
+  { line, character }: Position,
+  prefix = '',
+): { path: string; symbol: DocumentSymbol } | undefined => {
+  const contains = ({ range: { start, end } }: DocumentSymbol) =>
+    (start.line < line || (start.line === line && start.character <= character)) &&
+    (line < end.line || (line === end.line && character <= end.character))
+  const symbol = symbols.findLast(contains)
+  if (!symbol) return undefined
+  const path = prefix ? `${prefix}.${symbol.name}` : symbol.name
+  return findSymbolAt(symbol.children ?? [], { line, character }, path) ?? { path, symbol }
+}
+
+const sliceRange = (text: string, { start, end }: Range) => {
+  const lines = text.split('\n').slice(start.line, end.line + 1)
+  return lines.join('\n')
+}
+
+/**
+ * Collect the names of the type references in a range, at their first position
+ */
+const findTypeReferences = (sourceFile: ts.SourceFile, range: Range): Map<string, Position> => {
+  const start = sourceFile.getPositionOfLineAndCharacter(range.start.line, range.start.character)
+  const end = sourceFile.getPositionOfLineAndCharacter(range.end.line, range.end.character)
+  const references = new Map<string, Position>()
+
+  const visit = (node: ts.Node) => {
+    if (node.getEnd() < start || node.getStart(sourceFile) > end) return
+    const name = ts.isTypeReferenceNode(node)
+      ? node.typeName
+      : ts.isExpressionWithTypeArguments(node)
+        ? node.expression
+        : undefined
+    if (name) {
+      // Qualified names such as `ns.Type` resolve through their last part
+      const identifier = ts.isQualifiedName(name) ? name.right : ts.isPropertyAccessExpression(name) ? name.name : name
+      const text = name.getText(sourceFile)
+      if (!references.has(text)) {
+        references.set(text, sourceFile.getLineAndCharacterOfPosition(identifier.getStart(sourceFile)))
+      }
+    }
+    node.forEachChild(visit)
+  }
+  visit(sourceFile)
+
+  return references
+}
+
+/**
+ * Build the context pack of a symbol
+ *
+ * @param options - Running client, URI of an open document, the text it was opened
+ *   with if not the file on disk, position of the symbol name, token budget, directory
+ *   file paths are relative to, and how long to wait for the project to load before
+ *   searching for call sites
+ * @returns The context pack, or `undefined` when no symbol contains the position
+ */
+export const buildSymbolContext = async ({
+  client,
+  uri,
+  text: documentText,
+  position,
+  budget = 4000,
+  cwd = process.cwd(),
+  timeout = 30000,
+}: {
+  client: LspClient
+  uri: string
+  text?: string
+  position: Position
+  budget?: number
+  cwd?: string
+  timeout?: number
+}): Promise<SymbolContext | undefined> => {
+  const path = uriToPath(uri)
+  // Texts by path, since the caller's URI may be encoded differently than `file://${path}`
+  const documents = new Map<string, string>(documentText === undefined ? [] : [[path, documentText]])
+  const symbolsByUri = new Map<string, DocumentSymbol[]>()
+  const opened: string[] = []
+
+  const open = async (documentPath: string) => {
+    const documentUri = documentPath === path ? uri : `file://${documentPath}`
+    let text = documents.get(documentPath)
+    if (text === undefined) {
+      text = await Bun.file(documentPath).text()
+      documents.set(documentPath, text)
+      if (documentUri !== uri) {
+        client.openDocument(documentUri, getLanguageId(documentPath), 1, text)
+        opened.push(documentUri)
+      }
+    }
+    return { documentUri, text }
+  }
+
+  const getSymbols = async (documentUri: string) => {
+    let symbols = symbolsByUri.get(documentUri)
+    if (!symbols) {
+      const result = await client.documentSymbols(documentUri)
+      symbols = normalizeDocumentSymbols(result, client.getDocumentText(documentUri))
+      symbolsByUri.set(documentUri, symbols)
+    }
+    return symbols
+  }
+
+  try {
+    const { text } = await open(path)
+    const symbols = await getSymbols(uri)
+    const found = findSymbolAt(symbols, position)
+    if (!found) return undefined
+
+    const { path: symbolName, symbol: target } = found
+    const { line, character } = target.selectionRange.start
+    const file = relative(cwd, path)
+    let remaining = budget
+
+    const { signature, documentation } = splitHover(await client.hover(uri, line, character))
+    remaining -= estimateTokens(signature) + estimateTokens(documentation)
+
+    // Source, cut at the last whole line that fits
+    let source = sliceRange(text, target.range)
+    let truncated = false
+    if (estimateTokens(source) > remaining) {
+      const lines = source.split('\n')
+      while (lines.length > 0 && estimateTokens(lines.join('\n')) > remaining) lines.pop()
+      source = lines.join('\n')
+      truncated = true
+    }
+    remaining -= estimateTokens(source)
+
+    // Declarations of referenced types, outside the symbol itself and dependencies
+    const types: ContextType[] = []
+    let omittedTypes = 0
+    const seen = new Set<string>()
+    const sourceFile = ts.createSourceFile(path, text, ts.ScriptTarget.Latest, true)
+    for (const [name, reference] of findTypeReferences(sourceFile, target.range)) {
+      for (const definition of normalizeLocations(await client.definition(uri, reference.line, reference.character))) {
+        const definitionPath = uriToPath(definition.uri)
+        const key = `${definitionPath}:${definition.range.start.line}:${definition.range.start.character}`
+        if (seen.has(key) || definitionPath.includes('/node_modules/')) continue
+        seen.add(key)
+
+        const { documentUri, text: definitionText } = await open(definitionPath)
+        const declaration = findSymbolAt(await getSymbols(documentUri), definition.range.start)?.symbol
+        if (!declaration) continue
+        if (documentUri === uri && findSymbolAt([target], declaration.selectionRange.start)) continue
+
+        const declarationSource = sliceRange(definitionText, declaration.range)
+        if (estimateTokens(declarationSource) > remaining) {
+          omittedTypes++
+          continue
+        }
+        remaining -= estimateTokens(declarationSource)
+        types.push({
+          name,
+          file: relative(cwd, definitionPath),
+          line: declaration.selectionRange.start.line,
+          source: declarationSource,
+        })
+      }
+    }
+
+    // Call sites, skipping imports, re-exports and uses inside the symbol
+    const callSites: ContextCallSite[] = []
+    let omittedCallSites = 0
+    const complete = await client.waitForReady(uri, { timeout })
+    const sourceFiles = new Map<string, ts.SourceFile>([[path, sourceFile]])
+    for (const reference of normalizeLocations(await client.references(uri, line, character, false))) {
+      const referencePath = uriToPath(reference.uri)
+      if (referencePath.includes('/node_modules/')) continue
+      if (referencePath === path && findSymbolAt([target], reference.range.start)) continue
+
+      const { documentUri, text: referenceText } = await open(referencePath)
+      let referenceSourceFile = sourceFiles.get(referencePath)
+      if (!referenceSourceFile) {
+        referenceSourceFile = ts.createSourceFile(referencePath, referenceText, ts.ScriptTarget.Latest)
+        sourceFiles.set(referencePath, referenceSourceFile)
+      }
+      if (isImportOrExportPosition(referenceSourceFile, reference.range.start)) continue
+
+      // Declarations of the same name, such as the interface member a method implements
+      const referenceSymbols = await getSymbols(documentUri)
+      const declared = findSymbolAt(referenceSymbols, reference.range.start)?.symbol.selectionRange.start
+      if (declared?.line === reference.range.start.line && declared.character === reference.range.start.character)
+        continue
+
+      const referenceLine = reference.range.start.line
+      const [caller] = findSymbolsInLines(referenceSymbols, [{ start: referenceLine, end: referenceLine }])
+      const callSite = {
+        file: relative(cwd, referencePath),
+        line: referenceLine,
+        caller: caller?.path ?? null,
+        text: referenceText.split('\n')[referenceLine]?.trim() ?? '',
+      }
+      const tokens = estimateTokens(JSON.stringify(callSite))
+      if (tokens > remaining) {
+        omittedCallSites++
+        continue
+      }
+      remaining -= tokens
+      callSites.push(callSite)
+    }
+
+    return {
+      symbol: symbolName,
+      kind: symbolKindNames[target.kind] || `Unknown(${target.kind})`,
+      file,
+      range: target.range,
+      signature,
+      documentation,
+      source,
+      truncated,
+      types,
+      callSites,
+      omitted: { types: omittedTypes, callSites: omittedCallSites },
+      tokens: budget - remaining,
+      complete,
+    }
+  } finally {
+    for (const documentUri of opened) client.closeDocument(documentUri)
+  }
+}
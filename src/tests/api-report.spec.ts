@@ -0,0 +1,116 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { join } from 'node:path'
+import {
+  type ApiReport,
+  createApiReport,
+  diffApiReports,
+  getHoverSignature,
+  parseApiMarkdown,
+  renderApiMarkdown,
+} from '../api-report.ts'
+import { LspClient } from '../lsp-client.ts'
+
+const report: ApiReport = {
+  entries: {
+    'src/index.ts': [
+      { name: 'Config', kind: 'TypeAlias', typeOnly: true, signature: 'type Config = {\n    name: string;\n}' },
+      {
+        name: 'Store',
+        kind: 'Interface',
+        typeOnly: true,
+        signature: 'interface Store',
+        members: [{ name: 'get', signature: '(method) Store.get(): number' }],
+      },
+      { name: 'parse', kind: 'Constant', typeOnly: false, signature: 'const parse: (input: string) => Config' },
+    ],
+  },
+}
+
+describe('getHoverSignature', () => {
+  test('returns the first code block without documentation', () => {
+    const hover = { contents: { kind: 'markdown', value: '\n```typescript\nconst a: number\n```\nDocs' } }
+    expect(getHoverSignature(hover)).toBe('const a: number')
+  })
+
+  test('falls back to plain text', () => {
+    expect(getHoverSignature({ contents: 'const a: number' })).toBe('const a: number')
+    expect(getHoverSignature(null)).toBe('')
+  })
+})
+
+describe('api markdown', () => {
+  test('parses rendered reports back', () => {
+    expect(parseApiMarkdown(renderApiMarkdown(report))).toEqual(report)
+  })
+})
+
+describe('diffApiReports', () => {
+  const withSymbols = (symbols: ApiReport['entries'][string]): ApiReport => ({ entries: { 'src/index.ts': symbols } })
+  const [config, store, parse] = report.entries['src/index.ts']!
+
+  test('reports nothing for identical reports', () => {
+    expect(diffApiReports(report, report)).toEqual([])
+  })
+
+  test('classifies added, removed and changed exports', () => {
+    const after = withSymbols([
+      { ...parse!, signature: 'const parse: (input: string, strict: boolean) => Config' },
+      store!,
+      { name: 'format', kind: 'Function', typeOnly: false, signature: 'function format(): string' },
+    ])
+
+    expect(diffApiReports(report, after).map(({ name, change, breaking }) => ({ name, change, breaking }))).toEqual([
+      { name: 'Config', change: 'removed', breaking: true },
+      { name: 'format', change: 'added', breaking: false },
+      { name: 'parse', change: 'signature-changed', breaking: true },
+    ])
+  })
+
+  test('treats required interface members as breaking additions', () => {
+    const after = withSymbols([
+      config!,
+      {
+        ...store!,
+        members: [
+          ...store!.members!,
+          { name: 'set', signature: '(method) Store.set(value: number): void' },
+          { name: 'label', signature: '(property) Store.label?: string' },
+        ],
+      },
+      parse!,
+    ])
+
+    expect(diffApiReports(report, after).map(({ name, breaking }) => ({ name, breaking }))).toEqual([
+      { name: 'Store.label', breaking: false },
+      { name: 'Store.set', breaking: true },
+    ])
+  })
+})
+
+describe('createApiReport', () => {
+  let client: LspClient
+
+  beforeAll(async () => {
+    client = new LspClient({ rootUri: `file://${process.cwd()}` })
+    await client.start()
+  })
+
+  afterAll(async () => {
+    await client.stop()
+  })
+
+  test('reports resolved exports with signatures and public members', async () => {
+    const barrelFile = join(import.meta.dir, 'fixtures/barrel.ts')
+    const { entries } = await createApiReport({ client, entryFiles: [barrelFile] })
+    const symbols = entries['src/tests/fixtures/barrel.ts']!
+
+    expect(symbols.map((symbol) => symbol.name)).toEqual(['Config', 'ConfigManager', 'default', 'parse', 'sample'])
+    expect(symbols.find((symbol) => symbol.name === 'parse')?.signature).toBe(
+      'const parseConfig: (input: string) => Config',
+    )
+    expect(symbols.find((symbol) => symbol.name === 'ConfigManager')?.members?.map((member) => member.name)).toEqual([
+      'get',
+      'load',
+    ])
+  })
+})
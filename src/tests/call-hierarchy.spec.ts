@@ -0,0 +1,82 @@
+import { describe, expect, test } from 'bun:test'
+import { buildCallTree, normalizeCalls } from '../call-hierarchy.ts'
+import type { CallHierarchyItem } from '../lsp-types.ts'
+
+const range = (line: number, start: number, end: number) => ({
+  start: { line, character: start },
+  end: { line, character: end },
+})
+
+const item = (name: string, line: number): CallHierarchyItem => ({
+  name,
+  kind: 12,
+  uri: 'file:///repo/src/app.ts',
+  range: range(line, 0, 20),
+  selectionRange: range(line, 6, 6 + name.length),
+})
+
+const a = item('a', 1)
+const b = item('b', 5)
+const c = item('c', 9)
+
+/** a is called by b, b by c and a (recursion through b), c by nothing */
+const callers = new Map([
+  ['a', [{ item: b, fromRanges: [range(6, 2, 5)] }]],
+  [
+    'b',
+    [
+      { item: c, fromRanges: [range(10, 2, 5)] },
+      { item: a, fromRanges: [range(2, 2, 5)] },
+    ],
+  ],
+  ['c', []],
+])
+
+const getCalls = async (current: CallHierarchyItem) => callers.get(current.name) ?? []
+
+describe('buildCallTree', () => {
+  test('returns empty callers for a function nobody calls', async () => {
+    const tree = await buildCallTree({ item: c, direction: 'incoming', depth: 3, getCalls, cwd: '/repo' })
+
+    expect(tree).toEqual({ name: 'c', kind: 'Function', file: 'src/app.ts', range: range(9, 6, 7), callers: [] })
+  })
+
+  test('marks calls back into the current path as cycles', async () => {
+    const tree = await buildCallTree({ item: a, direction: 'incoming', depth: 5, getCalls, cwd: '/repo' })
+    const bNode = tree.callers?.[0]
+
+    expect(bNode?.name).toBe('b')
+    expect(bNode?.callSites).toEqual([range(6, 2, 5)])
+    expect(bNode?.callers?.map((node) => node.name)).toEqual(['c', 'a'])
+    expect(bNode?.callers?.[1]?.cycle).toBe(true)
+    expect(bNode?.callers?.[1]?.callers).toBeUndefined()
+  })
+
+  test('stops at the depth limit', async () => {
+    const tree = await buildCallTree({ item: a, direction: 'incoming', depth: 1, getCalls, cwd: '/repo' })
+
+    expect(tree.callers?.map((node) => node.name)).toEqual(['b'])
+    expect(tree.callers?.[0]?.callers).toBeUndefined()
+  })
+
+  test('names children callees for outgoing calls', async () => {
+    const tree = await buildCallTree({ item: a, direction: 'outgoing', depth: 1, getCalls, cwd: '/repo' })
+
+    expect(tree.callers).toBeUndefined()
+    expect(tree.callees?.map((node) => node.name)).toEqual(['b'])
+  })
+})
+
+describe('normalizeCalls', () => {
+  test('reads `from` for incoming calls', () => {
+    expect(normalizeCalls([{ from: a, fromRanges: [] }], 'incoming')).toEqual([{ item: a, fromRanges: [] }])
+  })
+
+  test('reads `to` for outgoing calls', () => {
+    expect(normalizeCalls([{ to: b, fromRanges: [] }], 'outgoing')).toEqual([{ item: b, fromRanges: [] }])
+  })
+
+  test('returns empty array for null', () => {
+    expect(normalizeCalls(null, 'incoming')).toEqual([])
+  })
+})
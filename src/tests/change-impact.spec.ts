@@ -0,0 +1,120 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { join } from 'node:path'
+import { analyzeChangeImpact, findSymbolsInLines, parseGitDiff } from '../change-impact.ts'
+import { LspClient } from '../lsp-client.ts'
+
+const fixturesDir = join(import.meta.dir, 'fixtures')
+
+describe('parseGitDiff', () => {
+  test('reads changed line ranges on the new side', () => {
+    const diff = [
+      'diff --git a/src/app.ts b/src/app.ts',
+      '--- a/src/app.ts',
+      '+++ b/src/app.ts',
+      '@@ -3 +3 @@ const a = 1',
+      '-old',
+      '+new',
+      '@@ -10,0 +11,3 @@',
+      '+one',
+      '+two',
+      '+three',
+      '@@ -20,2 +22,0 @@',
+      '-gone',
+      '-gone',
+    ].join('\n')
+
+    expect(parseGitDiff(diff)).toEqual([
+      {
+        path: 'src/app.ts',
+        lines: [
+          { start: 2, end: 2 },
+          { start: 10, end: 12 },
+          { start: 21, end: 21 },
+        ],
+      },
+    ])
+  })
+
+  test('unquotes paths with unusual characters', () => {
+    const hunk = '@@ -1 +1 @@'
+    const diff = [
+      '+++ b/a b.ts\t',
+      hunk,
+      '+++ "b/q\\"t.ts"',
+      hunk,
+      '+++ "b/t\\tab.ts"',
+      hunk,
+      '+++ "b/\\303\\251.ts"',
+      hunk,
+    ]
+    expect(parseGitDiff(diff.join('\n')).map((file) => file.path)).toEqual(['a b.ts', 'q"t.ts', 't\tab.ts', 'é.ts'])
+  })
+
+  test('skips deleted files', () => {
+    const diff = ['--- a/src/old.ts', '+++ /dev/null', '@@ -1,2 +0,0 @@', '-a', '-b'].join('\n')
+    expect(parseGitDiff(diff)).toEqual([])
+  })
+})
+
+describe('findSymbolsInLines', () => {
+  const range = (start: number, end: number) => ({
+    start: { line: start, character: 0 },
+    end: { line: end, character: 0 },
+  })
+  const symbols = [
+    { name: 'parse', kind: 12, range: range(0, 4), selectionRange: range(0, 0) },
+    {
+      name: 'Manager',
+      kind: 5,
+      range: range(6, 14),
+      selectionRange: range(6, 6),
+      children: [
+        { name: 'load', kind: 6, range: range(7, 9), selectionRange: range(7, 7) },
+        { name: 'save', kind: 6, range: range(11, 13), selectionRange: range(11, 11) },
+      ],
+    },
+  ]
+
+  test('returns the innermost members of classes', () => {
+    const paths = findSymbolsInLines(symbols, [{ start: 3, end: 8 }]).map(({ path }) => path)
+    expect(paths).toEqual(['parse', 'Manager.load'])
+  })
+
+  test('returns the class for lines between its members', () => {
+    const paths = findSymbolsInLines(symbols, [{ start: 10, end: 10 }]).map(({ path }) => path)
+    expect(paths).toEqual(['Manager'])
+  })
+
+  test('returns nothing outside symbols', () => {
+    expect(findSymbolsInLines(symbols, [{ start: 5, end: 5 }])).toEqual([])
+  })
+})
+
+describe('analyzeChangeImpact', () => {
+  const sampleFile = join(fixturesDir, 'sample.ts')
+  let client: LspClient
+
+  beforeAll(async () => {
+    client = new LspClient({ rootUri: `file://${process.cwd()}` })
+    await client.start()
+  })
+
+  afterAll(async () => {
+    await client.stop()
+  })
+
+  test('finds symbols that use changed symbols', async () => {
+    const result = await analyzeChangeImpact({
+      client,
+      changes: [{ path: sampleFile, lines: [{ start: 9, end: 9 }] }],
+    })
+
+    expect(result.changed).toEqual([
+      { file: 'src/tests/fixtures/sample.ts', symbol: 'parseConfig', kind: 'Constant', line: 8 },
+    ])
+    const load = result.affected.find((entry) => entry.symbol === 'ConfigManager.load')
+    expect(load?.uses).toEqual(['src/tests/fixtures/sample.ts#parseConfig'])
+    // barrel.ts only imports and re-exports parseConfig
+    expect(result.files).not.toContain('src/tests/fixtures/barrel.ts')
+  })
+})
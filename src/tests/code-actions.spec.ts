@@ -0,0 +1,62 @@
+import { describe, expect, test } from 'bun:test'
+import { matchesCodeActionKind, normalizeCodeActions, rangesOverlap } from '../code-actions.ts'
+
+const range = (startLine: number, startChar: number, endLine: number, endChar: number) => ({
+  start: { line: startLine, character: startChar },
+  end: { line: endLine, character: endChar },
+})
+
+describe('matchesCodeActionKind', () => {
+  test('matches the same kind', () => {
+    expect(matchesCodeActionKind('quickfix', 'quickfix')).toBe(true)
+  })
+
+  test('matches child kinds', () => {
+    expect(matchesCodeActionKind('source.organizeImports.ts', 'source.organizeImports')).toBe(true)
+    expect(matchesCodeActionKind('source.organizeImports.ts', 'source')).toBe(true)
+  })
+
+  test('does not match sibling kinds or name prefixes', () => {
+    expect(matchesCodeActionKind('source.sortImports.ts', 'source.organizeImports')).toBe(false)
+    expect(matchesCodeActionKind('source.fixAllExtra', 'source.fixAll')).toBe(false)
+  })
+
+  test('does not match actions without kind', () => {
+    expect(matchesCodeActionKind(undefined, 'quickfix')).toBe(false)
+  })
+})
+
+describe('rangesOverlap', () => {
+  test('detects overlapping ranges', () => {
+    expect(rangesOverlap(range(1, 0, 1, 10), range(1, 5, 2, 0))).toBe(true)
+  })
+
+  test('treats a position inside a range as overlapping', () => {
+    expect(rangesOverlap(range(1, 0, 3, 0), range(2, 4, 2, 4))).toBe(true)
+  })
+
+  test('treats touching ranges as overlapping', () => {
+    expect(rangesOverlap(range(1, 0, 1, 5), range(1, 5, 1, 8))).toBe(true)
+  })
+
+  test('detects disjoint ranges', () => {
+    expect(rangesOverlap(range(1, 0, 1, 5), range(1, 6, 1, 8))).toBe(false)
+    expect(rangesOverlap(range(4, 0, 4, 5), range(1, 0, 2, 0))).toBe(false)
+  })
+})
+
+describe('normalizeCodeActions', () => {
+  test('returns empty array for null', () => {
+    expect(normalizeCodeActions(null)).toEqual([])
+  })
+
+  test('keeps code actions', () => {
+    const action = { title: 'Organize Imports', kind: 'source.organizeImports.ts', edit: { changes: {} } }
+    expect(normalizeCodeActions([action])).toEqual([action])
+  })
+
+  test('wraps bare commands', () => {
+    const command = { title: 'Run', command: 'tool.run', arguments: [1] }
+    expect(normalizeCodeActions([command])).toEqual([{ title: 'Run', command }])
+  })
+})
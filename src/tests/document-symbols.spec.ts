@@ -0,0 +1,95 @@
+import { describe, expect, test } from 'bun:test'
+import { flattenDocumentSymbols, normalizeDocumentSymbols } from '../document-symbols.ts'
+
+const range = (startLine: number, startChar: number, endLine: number, endChar: number) => ({
+  start: { line: startLine, character: startChar },
+  end: { line: endLine, character: endChar },
+})
+
+const information = (name: string, kind: number, symbolRange: ReturnType<typeof range>, containerName?: string) => ({
+  name,
+  kind,
+  location: { uri: 'file:///sample.ts', range: symbolRange },
+  ...(containerName && { containerName }),
+})
+
+describe('normalizeDocumentSymbols', () => {
+  test('returns empty array for null', () => {
+    expect(normalizeDocumentSymbols(null)).toEqual([])
+  })
+
+  test('keeps hierarchical symbols', () => {
+    const symbols = [
+      {
+        name: 'ConfigManager',
+        kind: 5,
+        range: range(16, 0, 27, 1),
+        selectionRange: range(16, 13, 16, 26),
+        children: [{ name: 'load', kind: 6, range: range(19, 2, 21, 3), selectionRange: range(19, 2, 19, 6) }],
+      },
+    ]
+    expect(normalizeDocumentSymbols(symbols)).toBe(symbols)
+  })
+
+  test('nests flat symbols by range', () => {
+    const result = normalizeDocumentSymbols([
+      information('load', 6, range(19, 2, 21, 3), 'ConfigManager'),
+      information('parseConfig', 12, range(8, 0, 14, 1)),
+      information('ConfigManager', 5, range(16, 0, 27, 1)),
+      information('#config', 7, range(17, 2, 17, 26), 'ConfigManager'),
+    ])
+
+    expect(result).toEqual([
+      { name: 'parseConfig', kind: 12, range: range(8, 0, 14, 1), selectionRange: range(8, 0, 14, 1) },
+      {
+        name: 'ConfigManager',
+        kind: 5,
+        range: range(16, 0, 27, 1),
+        selectionRange: range(16, 0, 27, 1),
+        children: [
+          { name: '#config', kind: 7, range: range(17, 2, 17, 26), selectionRange: range(17, 2, 17, 26) },
+          { name: 'load', kind: 6, range: range(19, 2, 21, 3), selectionRange: range(19, 2, 21, 3) },
+        ],
+      },
+    ])
+  })
+
+  test('finds the names of flat symbols in the document text', async () => {
+    const text = await Bun.file(`${import.meta.dir}/fixtures/sample.ts`).text()
+    const result = normalizeDocumentSymbols(
+      [
+        information('ConfigManager', 5, range(16, 0, 26, 1)),
+        information('#config', 7, range(17, 2, 17, 26), 'ConfigManager'),
+        information('get', 6, range(23, 2, 25, 3), 'ConfigManager'),
+        information('missing', 13, range(8, 0, 10, 1)),
+      ],
+      text,
+    )
+
+    expect(result.map(({ name, selectionRange }) => ({ name, selectionRange }))).toEqual([
+      { name: 'missing', selectionRange: range(8, 0, 10, 1) },
+      { name: 'ConfigManager', selectionRange: range(16, 13, 16, 26) },
+    ])
+    expect(result[1]?.children?.map(({ selectionRange }) => selectionRange)).toEqual([
+      range(17, 2, 17, 9),
+      range(23, 2, 23, 5),
+    ])
+  })
+
+  test('drops entries that are not symbols', () => {
+    expect(normalizeDocumentSymbols([information('Config', 11, range(3, 0, 6, 1)), { foo: 1 }])).toEqual([
+      { name: 'Config', kind: 11, range: range(3, 0, 6, 1), selectionRange: range(3, 0, 6, 1) },
+    ])
+  })
+})
+
+describe('flattenDocumentSymbols', () => {
+  test('lists parents before their children', () => {
+    const symbols = normalizeDocumentSymbols([
+      information('ConfigManager', 5, range(16, 0, 27, 1)),
+      information('load', 6, range(19, 2, 21, 3), 'ConfigManager'),
+      information('Settings', 11, range(28, 0, 30, 1)),
+    ])
+    expect(flattenDocumentSymbols(symbols).map(({ name }) => name)).toEqual(['ConfigManager', 'load', 'Settings'])
+  })
+})
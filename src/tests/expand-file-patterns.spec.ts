@@ -0,0 +1,53 @@
+import { describe, expect, test } from 'bun:test'
+import { join } from 'node:path'
+import { expandFilePatterns, isGlobPattern } from '../expand-file-patterns.ts'
+
+describe('expandFilePatterns', () => {
+  describe('plain paths', () => {
+    test('resolves relative path from cwd', async () => {
+      const result = await expandFilePatterns(['src/resolve-file-path.ts'])
+      expect(result).toEqual([join(process.cwd(), 'src/resolve-file-path.ts')])
+    })
+
+    test('keeps paths that do not exist', async () => {
+      const result = await expandFilePatterns(['src/missing.ts'])
+      expect(result).toEqual([join(process.cwd(), 'src/missing.ts')])
+    })
+  })
+
+  describe('glob patterns', () => {
+    test('expands matches to sorted absolute paths', async () => {
+      const result = await expandFilePatterns(['src/tests/fixtures/*.ts'])
+
+      expect(result.length).toBeGreaterThan(0)
+      expect(result).toContain(join(process.cwd(), 'src/tests/fixtures/sample.ts'))
+      expect(result).toEqual([...result].sort())
+    })
+
+    test('skips node_modules', async () => {
+      const result = await expandFilePatterns(['**/typescript.d.ts'])
+      expect(result.some((file) => file.includes('/node_modules/'))).toBe(false)
+    })
+
+    test('returns empty array when nothing matches', async () => {
+      const result = await expandFilePatterns(['src/**/*.nomatch'])
+      expect(result).toEqual([])
+    })
+  })
+
+  describe('multiple patterns', () => {
+    test('removes duplicates', async () => {
+      const result = await expandFilePatterns(['src/tests/fixtures/sample.ts', 'src/tests/fixtures/*.ts'])
+      const samples = result.filter((file) => file.endsWith('sample.ts'))
+      expect(samples).toHaveLength(1)
+    })
+  })
+})
+
+describe('isGlobPattern', () => {
+  test('detects glob syntax', () => {
+    expect(isGlobPattern('src/**/*.ts')).toBe(true)
+    expect(isGlobPattern('src/{a,b}.ts')).toBe(true)
+    expect(isGlobPattern('src/app.ts')).toBe(false)
+  })
+})
@@ -0,0 +1,11 @@
+/**
+ * Barrel fixture for export analysis tests
+ */
+import { parseConfig, validateInput } from './sample.ts'
+
+// export const commented = 'not an export'
+export { parseConfig as parse }
+export type { Config } from './sample.ts'
+export * as sample from './sample.ts'
+export { ConfigManager } from './sample.ts'
+export default validateInput
@@ -14,7 +14,7 @@ export const validateInput = (input: unknown): input is string => {
   return typeof input === 'string'
 }
 
-export class ConfigManager {
+export class ConfigManager implements Settings {
   #config: Config | null = null
 
   load(input: string): void {
@@ -25,3 +25,9 @@ export class ConfigManager {
     return this.#config
   }
 }
+
+export interface Settings {
+  load(input: string): void
+}
+
+export class CachedConfigManager extends ConfigManager {}
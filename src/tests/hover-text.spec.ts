@@ -0,0 +1,24 @@
+import { describe, expect, test } from 'bun:test'
+import { getHoverText } from '../hover-text.ts'
+
+describe('getHoverText', () => {
+  test('returns empty text for null', () => {
+    expect(getHoverText(null)).toBe('')
+  })
+
+  test('returns markup content value', () => {
+    const value = '```typescript\nfunction parseConfig(input: string): Config\n```\nParse a config'
+    expect(getHoverText({ contents: { kind: 'markdown', value } })).toBe(value)
+  })
+
+  test('fences language marked strings', () => {
+    const hover = {
+      contents: [{ language: 'typescript', value: 'function parseConfig(input: string): Config' }, 'Parse a config'],
+    }
+    expect(getHoverText(hover)).toBe('```typescript\nfunction parseConfig(input: string): Config\n```\nParse a config')
+  })
+
+  test('returns single string content', () => {
+    expect(getHoverText({ contents: 'Parse a config' })).toBe('Parse a config')
+  })
+})
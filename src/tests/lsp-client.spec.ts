@@ -1,10 +1,46 @@
 import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
-import { LspClient } from '../lsp-client.ts'
+import { LspClient, LspServerExitError } from '../lsp-client.ts'
 
 const rootUri = `file://${process.cwd()}`
 const testFile = `${import.meta.dir}/fixtures/sample.ts`
 const testUri = `file://${testFile}`
 
+/**
+ * Minimal server that reports the documents it has open and the requests it was told
+ * to cancel, never answers `test/slow` and crashes on `test/crash`
+ */
+const fakeServer = `
+let buffer = Buffer.alloc(0)
+const opened = []
+const cancelled = []
+const send = (message) => {
+  const body = JSON.stringify({ jsonrpc: '2.0', ...message })
+  process.stdout.write('Content-Length: ' + Buffer.byteLength(body) + '\\r\\n\\r\\n' + body)
+}
+process.stdin.on('data', (chunk) => {
+  buffer = Buffer.concat([buffer, chunk])
+  while (true) {
+    const end = buffer.indexOf('\\r\\n\\r\\n')
+    if (end === -1) return
+    const length = Number(/Content-Length: (\\d+)/.exec(buffer.subarray(0, end).toString())[1])
+    if (buffer.length < end + 4 + length) return
+    const { id, method, params } = JSON.parse(buffer.subarray(end + 4, end + 4 + length).toString())
+    buffer = buffer.subarray(end + 4 + length)
+    if (method === 'textDocument/didOpen') opened.push(params.textDocument)
+    else if (method === '$/cancelRequest') cancelled.push(params.id)
+    else if (method === 'test/opened') send({ id, result: opened })
+    else if (method === 'test/cancelled') send({ id, result: cancelled })
+    else if (method === 'test/slow') continue
+    else if (method === 'test/crash') {
+      process.stderr.write('FATAL ERROR: JavaScript heap out of memory\\n')
+      process.exit(134)
+    } else if (method === 'exit') process.exit(0)
+    else if (id !== undefined) send({ id, result: method === 'initialize' ? { capabilities: {} } : null })
+  }
+})
+`
+const fakeCommand = ['bun', '-e', fakeServer]
+
 describe('LspClient', () => {
   let client: LspClient
 
@@ -98,6 +134,16 @@ describe('LspClient', () => {
       client.closeDocument(testUri)
     })
 
+    test('waits for the project to load', async () => {
+      const text = await Bun.file(testFile).text()
+
+      client.openDocument(testUri, 'typescript', 1, text)
+      const ready = await client.waitForReady(testUri)
+      client.closeDocument(testUri)
+
+      expect(ready).toBe(true)
+    })
+
     test('searches workspace symbols', async () => {
       // Open a document first so LSP has a project context
       const text = await Bun.file(testFile).text()
@@ -162,6 +208,308 @@ describe('LspClient', () => {
 
       client.closeDocument(testUri)
     })
+
+    test('gets type definition', async () => {
+      const text = await Bun.file(testFile).text()
+
+      client.openDocument(testUri, 'typescript', 1, text)
+
+      // parseConfig returns Config, so its type definition is the Config declaration
+      const lines = text.split('\n')
+      const line = lines.findIndex((l) => l.includes('export const parseConfig'))
+      const char = lines[line]!.indexOf('parseConfig')
+
+      const result = await client.typeDefinition(testUri, line, char)
+      expect(result).toBeDefined()
+
+      client.closeDocument(testUri)
+    })
+
+    test('gets implementation', async () => {
+      const text = await Bun.file(testFile).text()
+
+      client.openDocument(testUri, 'typescript', 1, text)
+
+      const lines = text.split('\n')
+      const line = lines.findIndex((l) => l.includes('export class ConfigManager'))
+      const char = lines[line]!.indexOf('ConfigManager')
+
+      const result = await client.implementation(testUri, line, char)
+      expect(Array.isArray(result)).toBe(true)
+
+      client.closeDocument(testUri)
+    })
+
+    test('gets incoming calls', async () => {
+      const text = await Bun.file(testFile).text()
+
+      client.openDocument(testUri, 'typescript', 1, text)
+
+      const lines = text.split('\n')
+      const line = lines.findIndex((l) => l.includes('export const parseConfig'))
+      const char = lines[line]!.indexOf('parseConfig')
+
+      const items = (await client.prepareCallHierarchy(testUri, line, char)) ?? []
+      const calls = (await client.incomingCalls(items[0]!)) ?? []
+
+      expect(items[0]?.name).toBe('parseConfig')
+      expect(calls.map((call) => call.from.name)).toEqual(['load'])
+
+      client.closeDocument(testUri)
+    })
+
+    test('computes rename edit', async () => {
+      const text = await Bun.file(testFile).text()
+
+      client.openDocument(testUri, 'typescript', 1, text)
+
+      const lines = text.split('\n')
+      const line = lines.findIndex((l) => l.includes('export const parseConfig'))
+      const char = lines[line]!.indexOf('parseConfig')
+
+      const prepared = await client.prepareRename(testUri, line, char)
+      const result = (await client.rename(testUri, line, char, 'parseSettings')) as {
+        changes?: Record<string, unknown[]>
+        documentChanges?: unknown[]
+      }
+
+      expect(prepared).toBeDefined()
+      expect(result.changes ?? result.documentChanges).toBeDefined()
+
+      client.closeDocument(testUri)
+    })
+
+    test('collects published diagnostics', async () => {
+      // Unsaved document with a type error, never written to disk
+      const uri = `file://${import.meta.dir}/fixtures/unsaved-error.ts`
+
+      client.openDocument(uri, 'typescript', 1, "const value: number = 'text'\n")
+
+      const settled = await client.waitForDiagnostics([uri])
+      const diagnostics = client.getDiagnostics(uri) as Array<{ code: number; message: string }>
+
+      expect(settled).toBe(true)
+      expect(diagnostics).toHaveLength(1)
+      expect(diagnostics[0]?.code).toBe(2322)
+
+      client.closeDocument(uri)
+    })
+
+    test('gets source code actions', async () => {
+      // Unsaved document with imports out of order
+      const uri = `file://${import.meta.dir}/fixtures/unsaved-imports.ts`
+      const text =
+        "import { join } from 'node:path'\nimport { basename } from 'node:os'\n\nexport const x = join(basename)\n"
+
+      client.openDocument(uri, 'typescript', 1, text)
+
+      const result = (await client.codeAction(
+        uri,
+        { start: { line: 0, character: 0 }, end: { line: 4, character: 0 } },
+        { diagnostics: [], only: ['source.organizeImports'] },
+      )) as Array<{ kind?: string; edit?: unknown }>
+
+      expect(result.length).toBeGreaterThan(0)
+      expect(result[0]?.kind).toStartWith('source.organizeImports')
+      expect(result[0]?.edit).toBeDefined()
+
+      client.closeDocument(uri)
+    })
+
+    test('syncs full and incremental document changes', async () => {
+      const uri = `file://${import.meta.dir}/fixtures/unsaved-change.ts`
+
+      client.openDocument(uri, 'typescript', 1, 'const value = 1\n')
+      expect(client.changeDocument(uri, 'const value: number = 1\n')).toBe(2)
+
+      const range = { start: { line: 0, character: 22 }, end: { line: 0, character: 23 } }
+      expect(client.changeDocument(uri, [{ range, text: "'text'" }])).toBe(3)
+      expect(client.getDocumentVersion(uri)).toBe(3)
+
+      await client.waitForDiagnostics([uri])
+      const diagnostics = client.getDiagnostics(uri) as Array<{ code: number }>
+      expect(diagnostics.map(({ code }) => code)).toEqual([2322])
+
+      client.closeDocument(uri)
+      expect(client.getDocumentVersion(uri)).toBeUndefined()
+    })
+
+    test('rejects changes to closed documents and stale versions', () => {
+      const uri = `file://${import.meta.dir}/fixtures/unsaved-version.ts`
+
+      expect(() => client.changeDocument(uri, '')).toThrow('Document not open')
+
+      client.openDocument(uri, 'typescript', 5, '')
+      expect(() => client.changeDocument(uri, 'export {}\n', 5)).toThrow('Document version must increase')
+      expect(client.changeDocument(uri, 'export {}\n', 8)).toBe(8)
+      client.closeDocument(uri)
+    })
+
+    test('reports unsettled diagnostics after timeout', async () => {
+      const settled = await client.waitForDiagnostics(['file:///never-opened.ts'], { timeout: 100 })
+      expect(settled).toBe(false)
+    })
+  })
+
+  describe('server messages', () => {
+    /**
+     * Start a client subscribed by `subscribe`, open the test file until its diagnostics arrive, and stop it
+     */
+    const openTestFile = async (subscribe: (client: LspClient) => void) => {
+      const messageClient = new LspClient({ rootUri })
+      subscribe(messageClient)
+      await messageClient.start()
+      try {
+        messageClient.openDocument(testUri, 'typescript', 1, await Bun.file(testFile).text())
+        await messageClient.waitForDiagnostics([testUri])
+        messageClient.closeDocument(testUri)
+      } finally {
+        await messageClient.stop()
+      }
+    }
+
+    test('answers server requests with registered handlers', async () => {
+      const requests: string[] = []
+
+      await openTestFile((messageClient) => {
+        messageClient.onRequest('window/workDoneProgress/create', () => {
+          requests.push('window/workDoneProgress/create')
+          return null
+        })
+      })
+
+      expect(requests).toContain('window/workDoneProgress/create')
+    })
+
+    test('delivers notifications to subscribers', async () => {
+      const progress: Array<{ kind: string }> = []
+      const notifications = new Set<string>()
+
+      await openTestFile((messageClient) => {
+        messageClient.onRequest('window/workDoneProgress/create', () => null)
+        messageClient.onNotification('$/progress', (params) => {
+          progress.push((params as { value: { kind: string } }).value)
+        })
+        messageClient.onNotification('*', (_params, method) => {
+          notifications.add(method)
+        })
+      })
+
+      expect(progress[0]?.kind).toBe('begin')
+      expect(progress.at(-1)?.kind).toBe('end')
+      expect(notifications.has('window/logMessage')).toBe(true)
+      expect(notifications.has('textDocument/publishDiagnostics')).toBe(true)
+    })
+
+    test('stops delivering after unsubscribe', async () => {
+      let count = 0
+
+      await openTestFile((messageClient) => {
+        const unsubscribe = messageClient.onNotification('textDocument/publishDiagnostics', () => {
+          count += 1
+        })
+        unsubscribe()
+      })
+
+      expect(count).toBe(0)
+    })
+  })
+
+  describe('crash recovery', () => {
+    test('rejects pending requests when the server exits', async () => {
+      const crashClient = new LspClient({ rootUri, command: fakeCommand })
+      await crashClient.start()
+
+      const error = await crashClient.request<never>('test/crash', null).catch((error: LspServerExitError) => error)
+
+      expect(error).toBeInstanceOf(LspServerExitError)
+      expect(error.exitCode).toBe(134)
+      expect(error.message).toBe('LSP server exited with code 134: FATAL ERROR: JavaScript heap out of memory')
+      expect(crashClient.isRunning()).toBe(false)
+      await expect(crashClient.request('test/opened', null)).rejects.toThrow('LSP server not running')
+    })
+
+    test('restarts and reopens documents with their current contents', async () => {
+      const crashClient = new LspClient({ rootUri, command: fakeCommand, autoRestart: true })
+      await crashClient.start()
+
+      crashClient.openDocument('file:///open.ts', 'typescript', 1, 'const a = 1\n')
+      crashClient.changeDocument('file:///open.ts', [
+        { range: { start: { line: 0, character: 6 }, end: { line: 0, character: 7 } }, text: 'b' },
+      ])
+      crashClient.openDocument('file:///closed.ts', 'typescript', 1, '')
+      crashClient.closeDocument('file:///closed.ts')
+
+      await expect(crashClient.request('test/crash', null)).rejects.toThrow(LspServerExitError)
+      expect(crashClient.isRunning()).toBe(true)
+
+      expect(await crashClient.request<unknown[]>('test/opened', null)).toEqual([
+        { uri: 'file:///open.ts', languageId: 'typescript', version: 2, text: 'const b = 1\n' },
+      ])
+
+      await crashClient.stop()
+    })
+
+    test('stops restarting after repeated crashes', async () => {
+      const crashClient = new LspClient({ rootUri, command: fakeCommand, autoRestart: true })
+      await crashClient.start()
+
+      for (let crash = 0; crash < 4; crash++) {
+        await expect(crashClient.request('test/crash', null)).rejects.toThrow(LspServerExitError)
+      }
+
+      expect(crashClient.isRunning()).toBe(false)
+    })
+  })
+
+  describe('cancellation', () => {
+    let fakeClient: LspClient
+
+    beforeAll(async () => {
+      fakeClient = new LspClient({ rootUri, command: fakeCommand })
+      await fakeClient.start()
+    })
+
+    afterAll(async () => {
+      await fakeClient.stop()
+    })
+
+    test('cancels aborted requests on the server', async () => {
+      const controller = new AbortController()
+      const request = fakeClient.request('test/slow', null, { signal: controller.signal })
+      controller.abort(new Error('No longer needed'))
+
+      await expect(request).rejects.toThrow('No longer needed')
+      expect(await fakeClient.request<unknown[]>('test/cancelled', null)).toHaveLength(1)
+    })
+
+    test('cancels requests that time out on the server', async () => {
+      await expect(fakeClient.request('test/slow', null, { timeout: 50 })).rejects.toThrow(
+        'LSP request timeout: test/slow',
+      )
+      expect(await fakeClient.request<unknown[]>('test/cancelled', null)).toHaveLength(2)
+    })
+
+    test('rejects already aborted requests without sending them', async () => {
+      await expect(fakeClient.request('test/slow', null, { signal: AbortSignal.abort() })).rejects.toThrow()
+      expect(await fakeClient.request<unknown[]>('test/cancelled', null)).toHaveLength(2)
+    })
+
+    test('cancels every pending request when the client signal is aborted', async () => {
+      const controller = new AbortController()
+      const abortingClient = new LspClient({ rootUri, command: fakeCommand, signal: controller.signal })
+      await abortingClient.start()
+
+      const requests = Promise.allSettled([
+        abortingClient.request('test/slow', null),
+        abortingClient.request('test/slow', null),
+      ])
+      controller.abort(new Error('Interrupted'))
+
+      expect((await requests).map(({ status }) => status)).toEqual(['rejected', 'rejected'])
+      await expect(abortingClient.request('test/opened', null)).rejects.toThrow('Interrupted')
+      await abortingClient.stop()
+    })
   })
 
   describe('error handling', () => {
@@ -0,0 +1,202 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { chmod, exists, mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { dirname, join } from 'node:path'
+import { getHoverText } from '../hover-text.ts'
+import {
+  createLspClient,
+  ensureDaemonDirectory,
+  getDaemonDirectory,
+  getDaemonSocketPath,
+  isDaemonRunning,
+} from '../lsp-daemon.ts'
+
+const scriptsDir = join(import.meta.dir, '..')
+const rootUri = `file://${process.cwd()}`
+const testFile = `${import.meta.dir}/fixtures/sample.ts`
+const testUri = `file://${testFile}`
+// Real directory that never has a daemon running
+const otherRootUri = `file://${import.meta.dir}/fixtures`
+
+const runDaemon = async (action: string) => {
+  const result = await Bun.$`bun ${scriptsDir}/lsp-daemon.ts ${action}`.quiet().nothrow()
+  return JSON.parse(result.text())
+}
+
+describe('lsp-daemon', () => {
+  describe('socket path', () => {
+    test('is stable for the same root', () => {
+      expect(getDaemonSocketPath(rootUri)).toBe(getDaemonSocketPath(rootUri))
+    })
+
+    test('differs between roots', () => {
+      expect(getDaemonSocketPath('file:///a')).not.toBe(getDaemonSocketPath('file:///b'))
+    })
+
+    test('differs between servers', () => {
+      expect(getDaemonSocketPath(rootUri, ['deno', 'lsp'])).not.toBe(getDaemonSocketPath(rootUri))
+    })
+
+    test('is in a private per-user directory', async () => {
+      const directory = await ensureDaemonDirectory()
+
+      expect(dirname(getDaemonSocketPath(rootUri))).toBe(getDaemonDirectory())
+      expect((await Bun.file(directory).stat()).mode & 0o777).toBe(0o700)
+    })
+  })
+
+  describe('socket checks', () => {
+    /** Leave a socket file behind, as a crashed daemon does */
+    const createStaleSocket = async (socketPath: string) => {
+      const listener = Bun.spawn(
+        [
+          'bun',
+          '-e',
+          `Bun.listen({ unix: ${JSON.stringify(socketPath)}, socket: { data() {} } }); setInterval(() => {}, 1000)`,
+        ],
+        { stdout: 'ignore', stderr: 'ignore' },
+      )
+      while (!(await exists(socketPath))) await Bun.sleep(20)
+      listener.kill('SIGKILL')
+      await listener.exited
+    }
+
+    test('removes a socket nothing listens on', async () => {
+      const socketPath = join(await ensureDaemonDirectory(), 'stale-test.sock')
+      await createStaleSocket(socketPath)
+
+      expect(await isDaemonRunning(socketPath)).toBe(false)
+      expect(await exists(socketPath)).toBe(false)
+    })
+
+    test('ignores sockets in directories others can access', async () => {
+      const directory = await mkdtemp(join(tmpdir(), 'lsp-daemon-test-'))
+      await chmod(directory, 0o755)
+      const socketPath = join(directory, 'shared.sock')
+      const server = Bun.listen({ unix: socketPath, socket: { data() {} } })
+
+      try {
+        expect(await isDaemonRunning(socketPath)).toBe(false)
+        expect(await exists(socketPath)).toBe(true)
+      } finally {
+        server.stop(true)
+        await rm(directory, { recursive: true, force: true })
+      }
+    })
+  })
+
+  describe('without daemon', () => {
+    test('reports not running for unused socket', async () => {
+      expect(await isDaemonRunning(getDaemonSocketPath(otherRootUri))).toBe(false)
+    })
+
+    test('createLspClient falls back to spawning a server', async () => {
+      const client = await createLspClient({ rootUri: otherRootUri })
+      await client.start()
+      expect(client.isRunning()).toBe(true)
+      await client.stop()
+    })
+
+    test('createLspClient leaves SIGINT handling to the embedding program', async () => {
+      const listeners = process.listenerCount('SIGINT')
+      await createLspClient({ rootUri: otherRootUri })
+      expect(process.listenerCount('SIGINT')).toBe(listeners)
+    })
+  })
+
+  describe('with daemon', () => {
+    beforeAll(async () => {
+      await runDaemon('start')
+    })
+
+    afterAll(async () => {
+      await runDaemon('stop')
+    })
+
+    test('reports status', async () => {
+      const status = await runDaemon('status')
+
+      expect(status.running).toBe(true)
+      expect(status.rootUri).toBe(rootUri)
+      expect(typeof status.pid).toBe('number')
+    })
+
+    test('serves requests through createLspClient', async () => {
+      const client = await createLspClient({ rootUri })
+      await client.start()
+
+      const text = await Bun.file(testFile).text()
+      client.openDocument(testUri, 'typescript', 1, text)
+      const result = await client.documentSymbols(testUri)
+      client.closeDocument(testUri)
+      await client.stop()
+
+      expect(Array.isArray(result)).toBe(true)
+    })
+
+    test('forwards diagnostics to the client that opened the document', async () => {
+      const client = await createLspClient({ rootUri })
+      await client.start()
+
+      const text = await Bun.file(testFile).text()
+      client.openDocument(testUri, 'typescript', 1, text)
+      const settled = await client.waitForDiagnostics([testUri])
+      client.closeDocument(testUri)
+      await client.stop()
+
+      expect(settled).toBe(true)
+      expect(client.getDiagnostics(testUri)).toEqual([])
+    })
+
+    test('reports the version of documents other clients have open', async () => {
+      const first = await createLspClient({ rootUri })
+      const second = await createLspClient({ rootUri })
+      await first.start()
+      await second.start()
+
+      const text = await Bun.file(testFile).text()
+      first.openDocument(testUri, 'typescript', 1, text)
+      expect(await first.getServerDocumentVersion(testUri)).toBe(1)
+      second.openDocument(testUri, 'typescript', 1, `${text}\n`)
+      const version = await second.getServerDocumentVersion(testUri)
+      first.closeDocument(testUri)
+      second.closeDocument(testUri)
+      await first.stop()
+      await second.stop()
+
+      expect(version).toBe(2)
+    })
+
+    test('puts back the text of the previous connection when the last one closes', async () => {
+      const first = await createLspClient({ rootUri })
+      const second = await createLspClient({ rootUri })
+      await first.start()
+      await second.start()
+      const uri = `file://${process.cwd()}/src/tests/fixtures/proposed.ts`
+
+      first.openDocument(uri, 'typescript', 1, 'export const alpha = 1\n')
+      await first.getServerDocumentVersion(uri)
+      second.openDocument(uri, 'typescript', 1, 'export const alpha = "two"\n')
+      const proposed = getHoverText(await second.hover(uri, 0, 13))
+      second.closeDocument(uri)
+      const restored = getHoverText(await first.hover(uri, 0, 13))
+      first.closeDocument(uri)
+      await first.stop()
+      await second.stop()
+
+      expect(proposed).toContain('const alpha: "two"')
+      expect(restored).toContain('const alpha: 1')
+    })
+
+    test('keeps running after a client disconnects', async () => {
+      expect(await isDaemonRunning(getDaemonSocketPath(rootUri))).toBe(true)
+    })
+
+    test('stops on request', async () => {
+      const result = await runDaemon('stop')
+
+      expect(result.stopped).toBe(true)
+      expect(await isDaemonRunning(getDaemonSocketPath(rootUri))).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,53 @@
+import { describe, expect, test } from 'bun:test'
+import { normalizeLocations } from '../lsp-locations.ts'
+
+const range = (line: number, start: number, end: number) => ({
+  start: { line, character: start },
+  end: { line, character: end },
+})
+
+describe('normalizeLocations', () => {
+  describe('empty results', () => {
+    test('returns empty array for null', () => {
+      expect(normalizeLocations(null)).toEqual([])
+    })
+
+    test('returns empty array for empty array', () => {
+      expect(normalizeLocations([])).toEqual([])
+    })
+  })
+
+  describe('Location results', () => {
+    test('wraps single location in array', () => {
+      const location = { uri: 'file:///a.ts', range: range(1, 2, 5) }
+      expect(normalizeLocations(location)).toEqual([location])
+    })
+
+    test('keeps location array', () => {
+      const locations = [
+        { uri: 'file:///a.ts', range: range(1, 2, 5) },
+        { uri: 'file:///b.ts', range: range(3, 0, 4) },
+      ]
+      expect(normalizeLocations(locations)).toEqual(locations)
+    })
+  })
+
+  describe('LocationLink results', () => {
+    test('uses target uri and selection range', () => {
+      const link = {
+        originSelectionRange: range(10, 4, 8),
+        targetUri: 'file:///types.ts',
+        targetRange: range(2, 0, 6),
+        targetSelectionRange: range(2, 12, 18),
+      }
+      expect(normalizeLocations([link])).toEqual([{ uri: 'file:///types.ts', range: range(2, 12, 18) }])
+    })
+  })
+
+  describe('invalid entries', () => {
+    test('drops entries that are neither locations nor links', () => {
+      const location = { uri: 'file:///a.ts', range: range(1, 2, 5) }
+      expect(normalizeLocations([location, { foo: 1 }, 'text'])).toEqual([location])
+    })
+  })
+})
@@ -0,0 +1,124 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { getHoverText } from '../hover-text.ts'
+import { LspClient } from '../lsp-client.ts'
+import {
+  AmbiguousSymbolError,
+  FileNotFoundError,
+  findDefinition,
+  findImplementations,
+  findReferences,
+  findSymbols,
+  findTypeDefinition,
+  getCallHierarchy,
+  getDocumentSymbols,
+  hover,
+  planRename,
+  SymbolNotFoundError,
+} from '../lsp-queries.ts'
+
+const rootUri = `file://${process.cwd()}`
+const testFile = 'src/tests/fixtures/sample.ts'
+const testUri = `file://${process.cwd()}/${testFile}`
+
+describe('lsp-queries', () => {
+  let client: LspClient
+
+  beforeAll(async () => {
+    client = new LspClient({ rootUri })
+    await client.start()
+  })
+
+  afterAll(async () => {
+    await client.stop()
+  })
+
+  test('hovers a position', async () => {
+    const result = await hover(testFile, { line: 8, character: 13 }, { client })
+    expect(getHoverText(result)).toContain('parseConfig')
+  })
+
+  test('hovers a symbol path', async () => {
+    const result = await hover(testFile, { symbol: 'ConfigManager.load' }, { client })
+    expect(getHoverText(result)).toContain('load(input: string): void')
+  })
+
+  test('queries unsaved contents', async () => {
+    const text = 'export const unsaved = 1\n'
+    const result = await hover(testFile, { symbol: 'unsaved' }, { client, text })
+    expect(getHoverText(result)).toContain('const unsaved: 1')
+  })
+
+  test('throws typed errors for unknown and ambiguous symbols', async () => {
+    await expect(hover(testFile, { symbol: 'missing' }, { client })).rejects.toBeInstanceOf(SymbolNotFoundError)
+
+    const error = await hover(testFile, { symbol: 'load' }, { client }).then(
+      () => undefined,
+      (error: AmbiguousSymbolError) => error,
+    )
+    expect(error).toBeInstanceOf(AmbiguousSymbolError)
+    expect(error?.candidates.map(({ symbol }) => symbol)).toEqual(['ConfigManager.load', 'Settings.load'])
+  })
+
+  test('throws FileNotFoundError for missing files', async () => {
+    const error = await hover('src/tests/fixtures/missing.ts', { line: 0, character: 0 }, { client }).then(
+      () => undefined,
+      (error: FileNotFoundError) => error,
+    )
+    expect(error).toBeInstanceOf(FileNotFoundError)
+    expect(error?.path).toEndWith('fixtures/missing.ts')
+  })
+
+  test('finds definitions and references', async () => {
+    const position = { line: 20, character: 19 }
+
+    const definitions = await findDefinition(testFile, position, { client })
+    expect(definitions).toEqual([
+      { uri: testUri, range: { start: { line: 8, character: 13 }, end: { line: 8, character: 24 } } },
+    ])
+
+    const references = await findReferences(testFile, position, { client })
+    expect(references.map(({ range }) => range.start.line)).toEqual([8, 20])
+  })
+
+  test('finds type definitions and implementations', async () => {
+    const typeDefinitions = await findTypeDefinition(testFile, { symbol: 'ConfigManager.get' }, { client })
+    expect(typeDefinitions.map(({ range }) => range.start.line)).toEqual([3])
+
+    const implementations = await findImplementations(testFile, { symbol: 'Settings' }, { client })
+    expect(implementations.map(({ range }) => range.start.line)).toEqual([16, 32])
+  })
+
+  test('builds call hierarchies', async () => {
+    const [tree] = await getCallHierarchy(testFile, { symbol: 'parseConfig' }, { client })
+    expect(tree?.name).toBe('parseConfig')
+    expect(tree?.callers?.map(({ name }) => name)).toEqual(['load'])
+
+    const [callees] = await getCallHierarchy(
+      testFile,
+      { symbol: 'ConfigManager.load' },
+      { client, direction: 'outgoing' },
+    )
+    expect(callees?.callees?.map(({ name }) => name)).toEqual(['parseConfig'])
+  })
+
+  test('plans renames without writing them', async () => {
+    const changes = await planRename(testFile, { symbol: 'parseConfig' }, 'parseSettings', { client })
+    const sample = changes?.find(({ path }) => path.endsWith(testFile))
+    expect(sample?.after).toContain('this.#config = parseSettings(input)')
+    expect(await Bun.file(testFile).text()).toContain('this.#config = parseConfig(input)')
+
+    expect(await planRename(testFile, { line: 8, character: 0 }, 'renamed', { client })).toBeNull()
+  })
+
+  test('lists document symbols', async () => {
+    const symbols = await getDocumentSymbols(testFile, { client })
+    const manager = symbols.find(({ name }) => name === 'ConfigManager')
+    expect(manager?.children?.map(({ name }) => name)).toEqual(['#config', 'get', 'load'])
+  })
+
+  test('finds workspace symbols with its own client', async () => {
+    const { complete, symbols } = await findSymbols('CachedConfig', { file: testFile })
+    expect(complete).toBe(true)
+    expect(symbols.map(({ name }) => name)).toContain('CachedConfigManager')
+  })
+})
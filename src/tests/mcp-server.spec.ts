@@ -0,0 +1,142 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { join } from 'node:path'
+
+const scriptsDir = join(import.meta.dir, '..')
+const testFile = 'src/tests/fixtures/sample.ts'
+
+type Response = { id: number | null; result?: Record<string, unknown>; error?: { code: number; message: string } }
+
+describe('mcp-server', () => {
+  let server: Bun.Subprocess<'pipe', 'pipe', 'inherit'>
+  const pending = new Map<number | null, (response: Response) => void>()
+  let nextId = 1
+
+  const request = (method: string, params?: unknown): Promise<Response> => {
+    const id = nextId++
+    const promise = new Promise<Response>((resolve) => pending.set(id, resolve))
+    server.stdin.write(`${JSON.stringify({ jsonrpc: '2.0', id, method, params })}\n`)
+    server.stdin.flush()
+    return promise
+  }
+
+  const callTool = async (name: string, args: Record<string, unknown>) => {
+    const response = await request('tools/call', { name, arguments: args })
+    const result = response.result as { content: { text: string }[]; isError?: boolean }
+    return { isError: result.isError ?? false, text: result.content[0]!.text }
+  }
+
+  beforeAll(async () => {
+    server = Bun.spawn(['bun', `${scriptsDir}/mcp-server.ts`], { stdin: 'pipe', stdout: 'pipe', stderr: 'inherit' })
+
+    const readResponses = async () => {
+      const decoder = new TextDecoder()
+      let buffer = ''
+      const reader = server.stdout.getReader()
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+        buffer += decoder.decode(value, { stream: true })
+        let newline = buffer.indexOf('\n')
+        while (newline !== -1) {
+          const response = JSON.parse(buffer.slice(0, newline)) as Response
+          pending.get(response.id)?.(response)
+          pending.delete(response.id)
+          buffer = buffer.slice(newline + 1)
+          newline = buffer.indexOf('\n')
+        }
+      }
+    }
+    readResponses()
+
+    await request('initialize', { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'test' } })
+    server.stdin.write(`${JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' })}\n`)
+  })
+
+  afterAll(async () => {
+    server.stdin.end()
+    await server.exited
+  })
+
+  test('lists tools with input schemas', async () => {
+    const response = await request('tools/list')
+    const tools = response.result?.tools as { name: string; inputSchema: { type: string } }[]
+
+    expect(tools.map((tool) => tool.name)).toEqual([
+      'lsp-hover',
+      'lsp-find',
+      'lsp-refs',
+      'lsp-symbols',
+      'lsp-analyze',
+      'validate-skill',
+    ])
+    for (const tool of tools) {
+      expect(tool.inputSchema.type).toBe('object')
+    }
+  })
+
+  test('answers ping', async () => {
+    const response = await request('ping')
+    expect(response.result).toEqual({})
+  })
+
+  test('rejects unknown methods', async () => {
+    const response = await request('resources/list')
+    expect(response.error?.code).toBe(-32601)
+  })
+
+  test('rejects messages that are not objects and keeps serving', async () => {
+    const invalid = new Promise<Response>((resolve) => pending.set(null, resolve))
+    server.stdin.write('null\n')
+    server.stdin.flush()
+    expect((await invalid).error).toEqual({ code: -32600, message: 'Invalid Request' })
+
+    const response = await request('ping')
+    expect(response.result).toEqual({})
+  })
+
+  test('rejects unknown tools', async () => {
+    const response = await request('tools/call', { name: 'missing', arguments: {} })
+    expect(response.error?.code).toBe(-32602)
+  })
+
+  test('lsp-hover resolves a symbol path', async () => {
+    const { isError, text } = await callTool('lsp-hover', { file: testFile, symbol: 'parseConfig' })
+
+    expect(isError).toBe(false)
+    expect(text).toContain('parseConfig')
+  })
+
+  test('lsp-hover lists the candidates of an ambiguous symbol', async () => {
+    const { isError, text } = await callTool('lsp-hover', { file: testFile, symbol: 'load' })
+    const { candidates } = JSON.parse(text) as { candidates: { symbol: string }[] }
+
+    expect(isError).toBe(true)
+    expect(candidates.map(({ symbol }) => symbol)).toEqual(['ConfigManager.load', 'Settings.load'])
+  })
+
+  test('lsp-symbols returns document symbols', async () => {
+    const { isError, text } = await callTool('lsp-symbols', { file: testFile })
+    const symbols = JSON.parse(text) as { name: string }[]
+
+    expect(isError).toBe(false)
+    expect(symbols.map((symbol) => symbol.name)).toContain('ConfigManager')
+  })
+
+  test('reports tool errors as error results', async () => {
+    const missingFile = await callTool('lsp-symbols', { file: 'src/tests/fixtures/missing.ts' })
+    const missingPosition = await callTool('lsp-refs', { file: testFile })
+
+    expect(missingFile.isError).toBe(true)
+    expect(missingFile.text).toContain('File not found')
+    expect(missingPosition.isError).toBe(true)
+  })
+
+  test('validate-skill returns validation results', async () => {
+    const { isError, text } = await callTool('validate-skill', { paths: ['skills/typescript-lsp'] })
+    const results = JSON.parse(text) as { valid: boolean }[]
+
+    expect(isError).toBe(false)
+    expect(results).toHaveLength(1)
+    expect(results[0]?.valid).toBe(true)
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, expect, test } from 'bun:test'
+import { createExportsProgram, getModuleExports } from '../module-exports.ts'
+
+const barrelFile = `${import.meta.dir}/fixtures/barrel.ts`
+const sampleFile = `${import.meta.dir}/fixtures/sample.ts`
+
+describe('getModuleExports', () => {
+  const program = createExportsProgram([barrelFile])
+  const exports = getModuleExports({ program, file: barrelFile })
+  const byName = (name: string) => exports.find((entry) => entry.name === name)
+
+  test('lists every export and nothing else', () => {
+    expect(exports.map((entry) => entry.name).sort()).toEqual(['Config', 'ConfigManager', 'default', 'parse', 'sample'])
+  })
+
+  test('resolves renamed exports to their origin', () => {
+    expect(byName('parse')).toEqual({
+      name: 'parse',
+      localName: 'parseConfig',
+      kind: 'Constant',
+      file: 'src/tests/fixtures/sample.ts',
+      line: 8,
+      character: 13,
+      typeOnly: false,
+    })
+  })
+
+  test('resolves the default export', () => {
+    expect(byName('default')).toMatchObject({ localName: 'validateInput', file: 'src/tests/fixtures/sample.ts' })
+  })
+
+  test('marks type exports as type-only', () => {
+    expect(byName('Config')).toMatchObject({ kind: 'TypeAlias', typeOnly: true })
+    expect(byName('ConfigManager')).toMatchObject({ kind: 'Class', typeOnly: false })
+  })
+
+  test('reports namespace re-exports as modules', () => {
+    expect(byName('sample')).toMatchObject({ localName: '*', kind: 'Module', file: 'src/tests/fixtures/sample.ts' })
+  })
+
+  test('returns the declarations of a plain module', () => {
+    const sampleExports = getModuleExports({ program, file: sampleFile })
+
+    expect(sampleExports.map((entry) => entry.name)).toContain('Settings')
+    expect(sampleExports.every((entry) => entry.file === 'src/tests/fixtures/sample.ts')).toBe(true)
+  })
+
+  test('returns nothing for files outside the program', () => {
+    expect(getModuleExports({ program, file: `${import.meta.dir}/fixtures/missing.ts` })).toEqual([])
+  })
+
+  test('analyzes proposed contents instead of the file on disk', () => {
+    const draftFile = `${import.meta.dir}/fixtures/draft.ts`
+    const text = "export const draft = 1\nexport { validateInput as validate } from './sample.ts'\n"
+    const draft = createExportsProgram([draftFile], new Map([[draftFile, text]]))
+
+    expect(getModuleExports({ program: draft, file: draftFile }).map((entry) => entry.localName)).toEqual([
+      'draft',
+      'validateInput',
+    ])
+  })
+})
@@ -0,0 +1,100 @@
+import { describe, expect, test } from 'bun:test'
+import { join } from 'node:path'
+import { formatOutput, parseOutputFormat, simplifyResult } from '../output-format.ts'
+
+const cwd = process.cwd()
+const sampleUri = `file://${join(import.meta.dir, 'fixtures', 'sample.ts')}`
+const range = (line: number, character: number, length: number) => ({
+  start: { line, character },
+  end: { line, character: character + length },
+})
+
+describe('parseOutputFormat', () => {
+  test('accepts known formats only', () => {
+    expect(parseOutputFormat('text')).toBe('text')
+    expect(parseOutputFormat('yaml')).toBeUndefined()
+  })
+})
+
+describe('simplifyResult', () => {
+  test('turns locations into 1-indexed paths', () => {
+    const result = simplifyResult([{ uri: sampleUri, range: range(8, 13, 11) }], cwd)
+    expect(JSON.stringify(result)).toBe('["src/tests/fixtures/sample.ts:9:14"]')
+  })
+
+  test('replaces markup, ranges and symbol kinds', () => {
+    const hover = { contents: { kind: 'markdown', value: '\nconst a: number\n' }, range: range(0, 6, 1) }
+    expect(simplifyResult(hover, cwd)).toEqual({ contents: 'const a: number', range: '1:7-1:8' })
+
+    const symbol = { name: 'load', detail: '', kind: 6, range: range(19, 2, 4), children: [] }
+    expect(simplifyResult([symbol], cwd)).toEqual([{ name: 'load', kind: 'Method', range: '20:3-20:7' }])
+  })
+
+  test('keeps other fields next to the location', () => {
+    const entry = { name: 'parseConfig', file: 'src/tests/fixtures/sample.ts', line: 8, character: 13 }
+    expect(JSON.stringify(simplifyResult(entry, cwd))).toBe(
+      '{"location":"src/tests/fixtures/sample.ts:9:14","name":"parseConfig"}',
+    )
+  })
+
+  test('keeps empty arrays at the top level', () => {
+    expect(simplifyResult({ complete: true, unused: [] }, cwd)).toEqual({ complete: true, unused: [] })
+  })
+})
+
+describe('formatOutput', () => {
+  const references = [
+    { uri: sampleUri, range: range(8, 13, 11) },
+    { uri: sampleUri, range: range(20, 19, 11) },
+  ]
+
+  test('prints JSON unchanged by default', async () => {
+    expect(await formatOutput(references, 'json')).toBe(JSON.stringify(references, null, 2))
+  })
+
+  test('prints locations with source lines as text', async () => {
+    expect(await formatOutput(references, 'text')).toBe(
+      [
+        'src/tests/fixtures/sample.ts:9:14  export const parseConfig = (input: string): Config => {',
+        'src/tests/fixtures/sample.ts:21:20  this.#config = parseConfig(input)',
+      ].join('\n'),
+    )
+  })
+
+  test('prints nested results as an outline', async () => {
+    const result = {
+      complete: true,
+      unused: [{ name: 'validateInput', file: 'src/tests/fixtures/sample.ts', line: 12 }],
+    }
+    expect(await formatOutput(result, 'text')).toBe(
+      [
+        'complete: true',
+        'unused:',
+        '  - location: src/tests/fixtures/sample.ts:13:1  export const validateInput = (input: unknown): input is string => {',
+        '    name: validateInput',
+      ].join('\n'),
+    )
+  })
+
+  test('reads source lines from proposed contents', async () => {
+    const texts = new Map([[join(import.meta.dir, 'fixtures', 'sample.ts'), 'const drafted = 1']])
+    expect(await formatOutput([{ uri: sampleUri, range: range(0, 6, 7) }], 'text', cwd, texts)).toBe(
+      'src/tests/fixtures/sample.ts:1:7  const drafted = 1',
+    )
+  })
+
+  test('prints compact JSON on one line', async () => {
+    expect(await formatOutput(references, 'compact')).toBe(
+      '["src/tests/fixtures/sample.ts:9:14","src/tests/fixtures/sample.ts:21:20"]',
+    )
+  })
+
+  test('prints markdown lists with code spans', async () => {
+    const result = { symbol: 'parseConfig', source: 'const a = 1\nconst b = 2' }
+    expect(await formatOutput(result, 'markdown')).toBe(
+      ['- **symbol**: parseConfig', '- **source**:', '', '  ```', '  const a = 1', '  const b = 2', '  ```', ''].join(
+        '\n',
+      ),
+    )
+  })
+})
@@ -0,0 +1,79 @@
+import { describe, expect, test } from 'bun:test'
+import { join } from 'node:path'
+import ts from 'typescript'
+import { addReferenceContext, getReferenceKind } from '../reference-context.ts'
+
+const sampleUri = `file://${join(import.meta.dir, 'fixtures', 'sample.ts')}`
+
+describe('getReferenceKind', () => {
+  const sourceFile = ts.createSourceFile(
+    'app.ts',
+    [
+      "import { a, type T } from './a.ts'",
+      'let count = 0',
+      'const value: T = a()',
+      'count += 1',
+      'count++',
+      'console.log(count, new a.Thing())',
+      'class B extends a.Base implements T {}',
+      'export { count }',
+      'export default count',
+    ].join('\n'),
+    ts.ScriptTarget.Latest,
+    true,
+  )
+  const kindAt = (line: number, character: number) => getReferenceKind(sourceFile, { line, character })
+
+  test('detects imports, exports and declarations', () => {
+    expect(kindAt(0, 9)).toBe('import')
+    expect(kindAt(0, 17)).toBe('import')
+    expect(kindAt(1, 4)).toBe('declaration')
+    expect(kindAt(7, 9)).toBe('export')
+    expect(kindAt(8, 15)).toBe('export')
+  })
+
+  test('detects type positions', () => {
+    expect(kindAt(2, 13)).toBe('type')
+    expect(kindAt(6, 34)).toBe('type')
+  })
+
+  test('detects calls and writes', () => {
+    expect(kindAt(2, 17)).toBe('call')
+    expect(kindAt(5, 25)).toBe('call')
+    expect(kindAt(3, 0)).toBe('write')
+    expect(kindAt(4, 0)).toBe('write')
+  })
+
+  test('treats other uses as reads', () => {
+    expect(kindAt(5, 12)).toBe('read')
+    // A class's `extends` is a value
+    expect(kindAt(6, 18)).toBe('read')
+  })
+})
+
+describe('addReferenceContext', () => {
+  const location = {
+    uri: sampleUri,
+    range: { start: { line: 20, character: 19 }, end: { line: 20, character: 30 } },
+  }
+
+  test('adds the kind and source line', async () => {
+    expect(await addReferenceContext([location])).toEqual([
+      { ...location, kind: 'call', text: '    this.#config = parseConfig(input)' },
+    ])
+  })
+
+  test('adds surrounding lines', async () => {
+    const [reference] = await addReferenceContext([location], { context: 1 })
+    expect(reference?.before).toEqual(['  load(input: string): void {'])
+    expect(reference?.after).toEqual(['  }'])
+  })
+
+  test('reads proposed contents instead of the file', async () => {
+    const texts = new Map([[join(import.meta.dir, 'fixtures', 'sample.ts'), 'let drafted = 1\ndrafted = 2']])
+    const written = { uri: sampleUri, range: { start: { line: 1, character: 0 }, end: { line: 1, character: 7 } } }
+    expect(await addReferenceContext([written], { texts })).toEqual([
+      { ...written, kind: 'write', text: 'drafted = 2' },
+    ])
+  })
+})
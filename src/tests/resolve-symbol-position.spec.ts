@@ -0,0 +1,95 @@
+import { describe, expect, test } from 'bun:test'
+import { findSymbolCandidates, parseSymbolPath } from '../resolve-symbol-position.ts'
+
+const range = (line: number, character: number, length: number) => ({
+  start: { line, character },
+  end: { line, character: character + length },
+})
+
+const symbol = (name: string, kind: number, line: number, character: number, children?: unknown[]) => ({
+  name,
+  kind,
+  range: range(line, 0, 10),
+  selectionRange: range(line, character, name.length),
+  children,
+})
+
+// Shape of documentSymbol output for the sample fixture plus a second class with `load`
+const symbols = [
+  symbol('parseConfig', 13, 8, 13),
+  symbol('ConfigManager', 5, 16, 13, [symbol('#config', 7, 17, 2), symbol('load', 6, 19, 2), symbol('get', 6, 23, 2)]),
+  symbol('CacheManager', 5, 30, 13, [symbol('load', 6, 31, 2)]),
+]
+
+describe('parseSymbolPath', () => {
+  test('splits file and symbol path', () => {
+    expect(parseSymbolPath('src/app.ts#ConfigManager.load')).toEqual({
+      filePath: 'src/app.ts',
+      symbol: 'ConfigManager.load',
+    })
+  })
+
+  test('keeps private member names', () => {
+    expect(parseSymbolPath('src/app.ts#ConfigManager.#config')).toEqual({
+      filePath: 'src/app.ts',
+      symbol: 'ConfigManager.#config',
+    })
+  })
+
+  test('returns undefined for plain file path', () => {
+    expect(parseSymbolPath('src/app.ts')).toBeUndefined()
+  })
+
+  test('returns undefined for empty file or symbol', () => {
+    expect(parseSymbolPath('#ConfigManager')).toBeUndefined()
+    expect(parseSymbolPath('src/app.ts#')).toBeUndefined()
+  })
+})
+
+describe('findSymbolCandidates', () => {
+  describe('exact matches', () => {
+    test('resolves top-level symbol to its selection range', () => {
+      expect(findSymbolCandidates(symbols, 'parseConfig')).toEqual([
+        { symbol: 'parseConfig', kind: 'Variable', line: 8, character: 13 },
+      ])
+    })
+
+    test('resolves nested symbol by full path', () => {
+      expect(findSymbolCandidates(symbols, 'ConfigManager.load')).toEqual([
+        { symbol: 'ConfigManager.load', kind: 'Method', line: 19, character: 2 },
+      ])
+    })
+
+    test('prefers exact match over suffix match', () => {
+      const result = findSymbolCandidates([...symbols, symbol('get', 12, 40, 16)], 'get')
+      expect(result).toEqual([{ symbol: 'get', kind: 'Function', line: 40, character: 16 }])
+    })
+  })
+
+  describe('suffix matches', () => {
+    test('resolves unique member name without container', () => {
+      expect(findSymbolCandidates(symbols, 'get')).toEqual([
+        { symbol: 'ConfigManager.get', kind: 'Method', line: 23, character: 2 },
+      ])
+    })
+
+    test('returns all candidates for ambiguous name', () => {
+      const result = findSymbolCandidates(symbols, 'load')
+      expect(result.map((candidate) => candidate.symbol)).toEqual(['ConfigManager.load', 'CacheManager.load'])
+    })
+
+    test('does not match partial names', () => {
+      expect(findSymbolCandidates(symbols, 'oad')).toEqual([])
+    })
+  })
+
+  describe('invalid input', () => {
+    test('returns empty array for unknown symbol', () => {
+      expect(findSymbolCandidates(symbols, 'Missing')).toEqual([])
+    })
+
+    test('returns empty array when server returned null', () => {
+      expect(findSymbolCandidates(null, 'parseConfig')).toEqual([])
+    })
+  })
+})
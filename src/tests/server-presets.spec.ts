@@ -0,0 +1,82 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  getServerSetting,
+  parseServer,
+  resolveServer,
+  SERVER_COMMAND_ENV,
+  SERVER_CONFIG_FILE,
+  SERVER_PRESETS,
+} from '../server-presets.ts'
+
+describe('parseServer', () => {
+  test('looks up presets by name', () => {
+    expect(parseServer('deno')).toBe(SERVER_PRESETS.deno!)
+  })
+
+  test('splits other values into a command', () => {
+    expect(parseServer(' my-server  --stdio ')).toEqual({ command: ['my-server', '--stdio'] })
+    expect(() => parseServer(' ')).toThrow('Server command is empty')
+  })
+})
+
+describe('resolveServer', () => {
+  let cwd: string
+
+  beforeAll(async () => {
+    cwd = await mkdtemp(join(tmpdir(), 'server-presets-'))
+  })
+
+  afterAll(async () => {
+    await rm(cwd, { recursive: true, force: true })
+  })
+
+  test('defaults to typescript-language-server', async () => {
+    expect(await resolveServer({ cwd })).toBe(SERVER_PRESETS['typescript-language-server']!)
+  })
+
+  test('reads the config file, and prefers the command line', async () => {
+    await Bun.write(join(cwd, SERVER_CONFIG_FILE), JSON.stringify({ server: 'deno' }))
+
+    expect(await resolveServer({ cwd })).toBe(SERVER_PRESETS.deno!)
+    expect(await resolveServer({ server: 'vtsls', cwd })).toBe(SERVER_PRESETS.vtsls!)
+  })
+
+  test('runs commands from the config file only when allowed', async () => {
+    const server = { command: ['custom-lsp'], settings: { custom: { strict: true } } }
+    await Bun.write(join(cwd, SERVER_CONFIG_FILE), JSON.stringify({ server }))
+
+    await expect(resolveServer({ cwd, allowCommand: false })).rejects.toThrow(SERVER_COMMAND_ENV)
+    expect(await resolveServer({ cwd, allowCommand: true })).toEqual(server)
+
+    await Bun.write(join(cwd, SERVER_CONFIG_FILE), JSON.stringify({ server: 'custom-lsp --stdio' }))
+    await expect(resolveServer({ cwd, allowCommand: false })).rejects.toThrow('custom-lsp --stdio')
+    expect(await resolveServer({ server: 'custom-lsp --stdio', cwd, allowCommand: false })).toEqual({
+      command: ['custom-lsp', '--stdio'],
+    })
+  })
+
+  test('rejects invalid config', async () => {
+    await Bun.write(join(cwd, SERVER_CONFIG_FILE), JSON.stringify({ server: { command: 'custom-lsp' } }))
+
+    await expect(resolveServer({ cwd })).rejects.toThrow('Invalid server')
+  })
+})
+
+describe('getServerSetting', () => {
+  const settings = { deno: { enable: true, lint: { rules: [] } } }
+
+  test('looks up dotted sections', () => {
+    expect(getServerSetting(settings, 'deno.enable')).toBe(true)
+    expect(getServerSetting(settings, 'deno.lint')).toEqual({ rules: [] })
+    expect(getServerSetting(settings)).toBe(settings)
+  })
+
+  test('returns null for unknown sections', () => {
+    expect(getServerSetting(settings, 'typescript')).toBeNull()
+    expect(getServerSetting(settings, 'deno.enable.value')).toBeNull()
+    expect(getServerSetting(undefined, 'deno')).toBeNull()
+  })
+})
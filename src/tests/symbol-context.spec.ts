@@ -0,0 +1,83 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { join } from 'node:path'
+import { LspClient } from '../lsp-client.ts'
+import { buildSymbolContext, estimateTokens, splitHover } from '../symbol-context.ts'
+
+const fixturesDir = join(import.meta.dir, 'fixtures')
+
+describe('estimateTokens', () => {
+  test('counts four characters per token', () => {
+    expect(estimateTokens('')).toBe(0)
+    expect(estimateTokens('abcd')).toBe(1)
+    expect(estimateTokens('abcde')).toBe(2)
+  })
+})
+
+describe('splitHover', () => {
+  test('separates the signature from the documentation', () => {
+    const hover = {
+      contents: { kind: 'markdown', value: '```typescript\nconst a: number\n```\nThe answer\n\n*@remarks* — Fixed' },
+    }
+    expect(splitHover(hover)).toEqual({
+      signature: 'const a: number',
+      documentation: 'The answer\n\n*@remarks* — Fixed',
+    })
+  })
+
+  test('handles hovers without documentation', () => {
+    expect(splitHover({ contents: '```ts\nlet b: string\n```' })).toEqual({
+      signature: 'let b: string',
+      documentation: '',
+    })
+  })
+})
+
+describe('buildSymbolContext', () => {
+  const sampleFile = join(fixturesDir, 'sample.ts')
+  const uri = `file://${sampleFile}`
+  let client: LspClient
+
+  beforeAll(async () => {
+    client = new LspClient({ rootUri: `file://${process.cwd()}` })
+    await client.start()
+    client.openDocument(uri, 'typescript', 1, await Bun.file(sampleFile).text())
+  })
+
+  afterAll(async () => {
+    client.closeDocument(uri)
+    await client.stop()
+  })
+
+  test('collects source, types and call sites', async () => {
+    const context = await buildSymbolContext({ client, uri, position: { line: 8, character: 13 } })
+
+    expect(context?.symbol).toBe('parseConfig')
+    expect(context?.signature).toBe('const parseConfig: (input: string) => Config')
+    expect(context?.source).toStartWith('export const parseConfig = (input: string): Config => {')
+    expect(context?.truncated).toBe(false)
+    expect(context?.types.map(({ name, line }) => ({ name, line }))).toEqual([{ name: 'Config', line: 3 }])
+    expect(context?.callSites).toContainEqual({
+      file: 'src/tests/fixtures/sample.ts',
+      line: 20,
+      caller: 'ConfigManager.load',
+      text: 'this.#config = parseConfig(input)',
+    })
+    // barrel.ts re-exports parseConfig, so it was opened to check the reference
+    expect(client.getDocumentVersion(`file://${join(fixturesDir, 'barrel.ts')}`)).toBeUndefined()
+    expect(client.getDocumentVersion(uri)).toBe(1)
+  })
+
+  test('trims parts that do not fit the budget', async () => {
+    const context = await buildSymbolContext({ client, uri, position: { line: 8, character: 13 }, budget: 20 })
+
+    expect(context?.truncated).toBe(true)
+    expect(context?.types).toEqual([])
+    expect(context?.omitted.types).toBe(1)
+    expect(context?.callSites).toEqual([])
+    expect(context?.tokens).toBeLessThanOrEqual(20)
+  })
+
+  test('returns undefined outside symbols', async () => {
+    expect(await buildSymbolContext({ client, uri, position: { line: 1, character: 0 } })).toBeUndefined()
+  })
+})
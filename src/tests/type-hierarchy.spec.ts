@@ -0,0 +1,124 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { LspClient } from '../lsp-client.ts'
+import type { TypeHierarchyItem } from '../lsp-types.ts'
+import { buildTypeTree, createTypeHierarchy, findHeritageReferences } from '../type-hierarchy.ts'
+
+const range = (line: number, start: number, end: number) => ({
+  start: { line, character: start },
+  end: { line, character: end },
+})
+
+const item = (name: string, line: number, kind = 5): TypeHierarchyItem => ({
+  name,
+  kind,
+  uri: 'file:///repo/src/types.ts',
+  range: range(line, 0, 40),
+  selectionRange: range(line, 13, 13 + name.length),
+})
+
+describe('findHeritageReferences', () => {
+  test('finds extends and implements clauses', () => {
+    const text = 'export class Child extends Base implements Store, Named {\n}'
+
+    expect(findHeritageReferences(text, { line: 0, character: 18 })).toEqual([
+      { line: 0, character: 27 },
+      { line: 0, character: 43 },
+      { line: 0, character: 50 },
+    ])
+  })
+
+  test('skips type parameters and type arguments', () => {
+    const text = 'class A<T extends { id: string }> extends Map<string, T> {}'
+
+    expect(findHeritageReferences(text, { line: 0, character: 7 })).toEqual([{ line: 0, character: 42 }])
+  })
+
+  test('returns the last identifier of qualified names', () => {
+    const text = 'interface Store\n  extends api.Base,\n    Named {}'
+
+    expect(findHeritageReferences(text, { line: 0, character: 15 })).toEqual([
+      { line: 1, character: 14 },
+      { line: 2, character: 4 },
+    ])
+  })
+
+  test('returns nothing without heritage clauses', () => {
+    expect(findHeritageReferences('class Plain { extends = 1 }', { line: 0, character: 11 })).toEqual([])
+  })
+})
+
+describe('buildTypeTree', () => {
+  const store = item('Store', 0, 11)
+  const base = item('Base', 2)
+  const child = item('Child', 4)
+
+  /** Base implements Store, Child extends Base, and Store claims Child as a supertype to form a cycle */
+  const supertypes = new Map([
+    ['Store', [child]],
+    ['Base', [store]],
+    ['Child', [base]],
+  ])
+  const subtypes = new Map([
+    ['Store', [base]],
+    ['Base', [child]],
+    ['Child', []],
+  ])
+  const hierarchy = {
+    supertypes: async (current: TypeHierarchyItem) => supertypes.get(current.name) ?? [],
+    subtypes: async (current: TypeHierarchyItem) => subtypes.get(current.name) ?? [],
+  }
+
+  test('expands supertypes and subtypes from the root', async () => {
+    const tree = await buildTypeTree({ item: base, hierarchy, cwd: '/repo' })
+
+    expect(tree.name).toBe('Base')
+    expect(tree.file).toBe('src/types.ts')
+    expect(tree.supertypes?.map((node) => node.name)).toEqual(['Store'])
+    expect(tree.subtypes?.map((node) => node.name)).toEqual(['Child'])
+    expect(tree.subtypes?.[0]?.subtypes).toEqual([])
+    expect(tree.subtypes?.[0]?.supertypes).toBeUndefined()
+  })
+
+  test('marks types already on the current path as cycles', async () => {
+    const tree = await buildTypeTree({ item: base, hierarchy, cwd: '/repo' })
+    const storeNode = tree.supertypes?.[0]
+    const childNode = storeNode?.supertypes?.[0]
+
+    expect(childNode?.name).toBe('Child')
+    expect(childNode?.supertypes?.[0]).toMatchObject({ name: 'Base', kind: 'Class', cycle: true })
+    expect(childNode?.supertypes?.[0]?.supertypes).toBeUndefined()
+  })
+})
+
+describe('createTypeHierarchy', () => {
+  const rootUri = `file://${process.cwd()}`
+  const testFile = `${import.meta.dir}/fixtures/sample.ts`
+  const testUri = `file://${testFile}`
+  let client: LspClient
+
+  beforeAll(async () => {
+    client = new LspClient({ rootUri })
+    await client.start()
+  })
+
+  afterAll(async () => {
+    await client.stop()
+  })
+
+  test('derives the hierarchy when the server has no type hierarchy support', async () => {
+    const text = await Bun.file(testFile).text()
+    const lines = text.split('\n')
+    const line = lines.findIndex((l) => l.includes('export class ConfigManager'))
+    const character = lines[line]!.indexOf('ConfigManager')
+
+    const hierarchy = createTypeHierarchy({ client })
+    const [configManager] = await hierarchy.prepare(testUri, { line, character })
+    const supertypes = await hierarchy.supertypes(configManager!)
+    const subtypes = await hierarchy.subtypes(configManager!)
+    hierarchy.close()
+
+    expect(configManager?.name).toBe('ConfigManager')
+    expect(supertypes.map((type) => type.name)).toEqual(['Settings'])
+    expect(subtypes.map((type) => type.name)).toEqual(['CachedConfigManager'])
+  })
+})
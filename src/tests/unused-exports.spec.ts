@@ -0,0 +1,87 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { join } from 'node:path'
+import ts from 'typescript'
+import { LspClient } from '../lsp-client.ts'
+import { findUnusedExports, getPackageEntryFiles, isImportOrExportPosition, isTestFile } from '../unused-exports.ts'
+
+const fixturesDir = join(import.meta.dir, 'fixtures')
+
+describe('isTestFile', () => {
+  test('matches spec, test and __tests__ files', () => {
+    expect(isTestFile('src/tests/app.spec.ts')).toBe(true)
+    expect(isTestFile('src/app.test.tsx')).toBe(true)
+    expect(isTestFile('src/__tests__/app.ts')).toBe(true)
+    expect(isTestFile('src/tests/fixtures/sample.ts')).toBe(false)
+    expect(isTestFile('src/latest.ts')).toBe(false)
+  })
+})
+
+describe('getPackageEntryFiles', () => {
+  test('returns existing export and bin entries', async () => {
+    expect(await getPackageEntryFiles(process.cwd())).toEqual([
+      join(process.cwd(), 'src/index.ts'),
+      join(process.cwd(), 'bin/cli.ts'),
+    ])
+  })
+
+  test('returns nothing without package.json', async () => {
+    expect(await getPackageEntryFiles(fixturesDir)).toEqual([])
+  })
+})
+
+describe('isImportOrExportPosition', () => {
+  const sourceFile = ts.createSourceFile(
+    'app.ts',
+    ["import { a } from './a.ts'", 'export { a as b }', 'console.log(a)', 'export default a'].join('\n'),
+    ts.ScriptTarget.Latest,
+  )
+
+  test('detects names in import and export declarations', () => {
+    expect(isImportOrExportPosition(sourceFile, { line: 0, character: 9 })).toBe(true)
+    expect(isImportOrExportPosition(sourceFile, { line: 1, character: 9 })).toBe(true)
+    expect(isImportOrExportPosition(sourceFile, { line: 3, character: 15 })).toBe(true)
+  })
+
+  test('treats other references as uses', () => {
+    expect(isImportOrExportPosition(sourceFile, { line: 2, character: 12 })).toBe(false)
+  })
+})
+
+describe('findUnusedExports', () => {
+  const sampleFile = join(fixturesDir, 'sample.ts')
+  let client: LspClient
+
+  beforeAll(async () => {
+    client = new LspClient({ rootUri: `file://${process.cwd()}` })
+    await client.start()
+  })
+
+  afterAll(async () => {
+    await client.stop()
+  })
+
+  test('ignores imports and re-exports', async () => {
+    const { complete, unused } = await findUnusedExports({ client, files: [sampleFile] })
+
+    expect(complete).toBe(true)
+    expect(unused.map((entry) => entry.name).sort()).toEqual([
+      'CachedConfigManager',
+      'Config',
+      'ConfigManager',
+      'Settings',
+      'parseConfig',
+      'validateInput',
+    ])
+    expect(unused.find((entry) => entry.name === 'Settings')?.usedInFile).toBe(true)
+  })
+
+  test('treats exports of root files as used', async () => {
+    const { unused } = await findUnusedExports({
+      client,
+      files: [sampleFile],
+      rootFiles: [join(fixturesDir, 'barrel.ts')],
+    })
+
+    expect(unused.map((entry) => entry.name).sort()).toEqual(['CachedConfigManager', 'Settings'])
+  })
+})
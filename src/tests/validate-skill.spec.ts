@@ -2,6 +2,7 @@ import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
 import { mkdtemp, rm } from 'node:fs/promises'
 import { tmpdir } from 'node:os'
 import { join } from 'node:path'
+import { validateSkillDirectory } from '../validate-skill.ts'
 
 const scriptsDir = join(import.meta.dir, '..')
 
@@ -228,4 +229,18 @@ metadata:
       expect(exitCode).toBe(0)
     })
   })
+
+  describe('validateSkillDirectory', () => {
+    test('returns the result without printing', async () => {
+      const skillDir = await createSkill('api-skill', 'name: api-skill\ndescription: Validated in process')
+
+      expect(await validateSkillDirectory(skillDir)).toEqual({
+        valid: true,
+        path: skillDir,
+        errors: [],
+        warnings: [],
+        properties: { name: 'api-skill', description: 'Validated in process' },
+      })
+    })
+  })
 })
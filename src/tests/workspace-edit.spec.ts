@@ -0,0 +1,242 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { applyFileChanges, applyTextEdits, createUnifiedDiff, planWorkspaceEdit } from '../workspace-edit.ts'
+
+const range = (startLine: number, startChar: number, endLine: number, endChar: number) => ({
+  start: { line: startLine, character: startChar },
+  end: { line: endLine, character: endChar },
+})
+
+describe('applyTextEdits', () => {
+  test('replaces ranges against the original text', () => {
+    const text = 'const a = b\nconst c = b\n'
+    const result = applyTextEdits(text, [
+      { range: range(0, 10, 0, 11), newText: 'value' },
+      { range: range(1, 10, 1, 11), newText: 'value' },
+    ])
+    expect(result).toBe('const a = value\nconst c = value\n')
+  })
+
+  test('applies edits regardless of order', () => {
+    const result = applyTextEdits('abc', [
+      { range: range(0, 2, 0, 3), newText: 'C' },
+      { range: range(0, 0, 0, 1), newText: 'A' },
+    ])
+    expect(result).toBe('AbC')
+  })
+
+  test('keeps insert order at the same position', () => {
+    const result = applyTextEdits('x', [
+      { range: range(0, 0, 0, 0), newText: '1' },
+      { range: range(0, 0, 0, 0), newText: '2' },
+    ])
+    expect(result).toBe('12x')
+  })
+
+  test('handles multi-line ranges', () => {
+    const result = applyTextEdits('a\nb\nc\n', [{ range: range(0, 1, 2, 0), newText: ' ' }])
+    expect(result).toBe('a c\n')
+  })
+
+  test('throws on overlapping edits', () => {
+    expect(() =>
+      applyTextEdits('abcdef', [
+        { range: range(0, 0, 0, 3), newText: 'x' },
+        { range: range(0, 2, 0, 4), newText: 'y' },
+      ]),
+    ).toThrow('Overlapping text edits')
+  })
+})
+
+describe('planWorkspaceEdit', () => {
+  let tempDir: string
+  let fileA: string
+  let fileB: string
+
+  beforeAll(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'workspace-edit-test-'))
+    fileA = join(tempDir, 'a.ts')
+    fileB = join(tempDir, 'b.ts')
+    await Bun.write(fileA, 'export const foo = 1\n')
+    await Bun.write(fileB, "import { foo } from './a.ts'\n")
+  })
+
+  afterAll(async () => {
+    await rm(tempDir, { recursive: true, force: true })
+  })
+
+  test('plans `changes` edits', async () => {
+    const changes = await planWorkspaceEdit({
+      changes: {
+        [`file://${fileA}`]: [{ range: range(0, 13, 0, 16), newText: 'bar' }],
+        [`file://${fileB}`]: [{ range: range(0, 9, 0, 12), newText: 'bar' }],
+      },
+    })
+
+    expect(changes).toEqual([
+      { path: fileA, before: 'export const foo = 1\n', after: 'export const bar = 1\n' },
+      { path: fileB, before: "import { foo } from './a.ts'\n", after: "import { bar } from './a.ts'\n" },
+    ])
+  })
+
+  test('plans `documentChanges` edits', async () => {
+    const changes = await planWorkspaceEdit({
+      documentChanges: [
+        {
+          textDocument: { uri: `file://${fileA}`, version: null },
+          edits: [{ range: range(0, 13, 0, 16), newText: 'x' }],
+        },
+      ],
+    })
+
+    expect(changes).toEqual([{ path: fileA, before: 'export const foo = 1\n', after: 'export const x = 1\n' }])
+  })
+
+  test('prefers snapshots over disk content', async () => {
+    const changes = await planWorkspaceEdit(
+      { changes: { [`file://${fileA}`]: [{ range: range(0, 0, 0, 0), newText: '// ' }] } },
+      { snapshots: new Map([[fileA, 'unsaved\n']]) },
+    )
+
+    expect(changes[0]?.before).toBe('unsaved\n')
+    expect(changes[0]?.after).toBe('// unsaved\n')
+  })
+
+  test('rejects edits for a stale document version', async () => {
+    const edit = {
+      documentChanges: [{ textDocument: { uri: `file://${fileA}`, version: 1 }, edits: [] }],
+    }
+
+    await expect(planWorkspaceEdit(edit, { versions: new Map([[fileA, 2]]) })).rejects.toThrow('Stale edit')
+  })
+
+  test('plans resource operations', async () => {
+    const created = join(tempDir, 'c.ts')
+    const renamed = join(tempDir, 'renamed.ts')
+    const changes = await planWorkspaceEdit({
+      documentChanges: [
+        { kind: 'create', uri: `file://${created}` },
+        { textDocument: { uri: `file://${created}` }, edits: [{ range: range(0, 0, 0, 0), newText: 'new\n' }] },
+        { kind: 'rename', oldUri: `file://${fileB}`, newUri: `file://${renamed}` },
+      ],
+    })
+
+    expect(changes).toEqual([
+      { path: created, before: null, after: 'new\n' },
+      { path: fileB, before: "import { foo } from './a.ts'\n", after: null },
+      { path: renamed, before: null, after: "import { foo } from './a.ts'\n" },
+    ])
+  })
+
+  test('rejects edits to missing files', async () => {
+    const edit = { changes: { [`file://${join(tempDir, 'missing.ts')}`]: [] } }
+    await expect(planWorkspaceEdit(edit)).rejects.toThrow('Cannot edit missing file')
+  })
+})
+
+describe('applyFileChanges', () => {
+  let tempDir: string
+
+  beforeAll(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'workspace-edit-apply-'))
+  })
+
+  afterAll(async () => {
+    await rm(tempDir, { recursive: true, force: true })
+  })
+
+  test('writes, creates and deletes files', async () => {
+    const edited = join(tempDir, 'edited.ts')
+    const created = join(tempDir, 'created.ts')
+    const deleted = join(tempDir, 'deleted.ts')
+    await Bun.write(edited, 'old\n')
+    await Bun.write(deleted, 'gone\n')
+
+    await applyFileChanges([
+      { path: edited, before: 'old\n', after: 'new\n' },
+      { path: created, before: null, after: 'created\n' },
+      { path: deleted, before: 'gone\n', after: null },
+    ])
+
+    expect(await Bun.file(edited).text()).toBe('new\n')
+    expect(await Bun.file(created).text()).toBe('created\n')
+    expect(await Bun.file(deleted).exists()).toBe(false)
+  })
+
+  test('rejects all changes when a file changed since it was read', async () => {
+    const fresh = join(tempDir, 'fresh.ts')
+    const stale = join(tempDir, 'stale.ts')
+    await Bun.write(fresh, 'fresh\n')
+    await Bun.write(stale, 'changed on disk\n')
+
+    await expect(
+      applyFileChanges([
+        { path: fresh, before: 'fresh\n', after: 'edited\n' },
+        { path: stale, before: 'as read\n', after: 'edited\n' },
+      ]),
+    ).rejects.toThrow('Stale edit')
+
+    expect(await Bun.file(fresh).text()).toBe('fresh\n')
+  })
+})
+
+describe('createUnifiedDiff', () => {
+  const lines = (count: number) => Array.from({ length: count }, (_, i) => `line ${i + 1}`)
+
+  test('returns empty string for unchanged content', () => {
+    expect(createUnifiedDiff({ path: '/repo/a.ts', before: 'same\n', after: 'same\n' }, '/repo')).toBe('')
+  })
+
+  test('renders a hunk with context', () => {
+    const before = `${lines(10).join('\n')}\n`
+    const after = before.replace('line 5\n', 'line five\n')
+
+    expect(createUnifiedDiff({ path: '/repo/src/a.ts', before, after }, '/repo')).toBe(
+      [
+        '--- a/src/a.ts',
+        '+++ b/src/a.ts',
+        '@@ -2,7 +2,7 @@',
+        ' line 2',
+        ' line 3',
+        ' line 4',
+        '-line 5',
+        '+line five',
+        ' line 6',
+        ' line 7',
+        ' line 8',
+        '',
+      ].join('\n'),
+    )
+  })
+
+  test('splits distant changes into separate hunks', () => {
+    const before = `${lines(20).join('\n')}\n`
+    const after = before.replace('line 2\n', 'line two\n').replace('line 19\n', 'line nineteen\n')
+
+    const diff = createUnifiedDiff({ path: '/repo/a.ts', before, after }, '/repo')
+
+    expect(diff.match(/^@@/gm)).toHaveLength(2)
+    expect(diff).toContain('@@ -1,5 +1,5 @@')
+    expect(diff).toContain('@@ -16,5 +16,5 @@')
+  })
+
+  test('replaces heavily edited regions as a whole', () => {
+    const before = `${lines(3000).join('\n')}\n`
+    const after = before.replace(/^line (\d+)$/gm, (line, n) => (Number(n) % 2 ? line : `changed ${n}`))
+
+    const diff = createUnifiedDiff({ path: '/repo/a.ts', before, after }, '/repo')
+
+    expect(diff.match(/^@@.*/gm)).toEqual(['@@ -1,3000 +1,3000 @@'])
+    expect(diff.split('\n').slice(3, 6)).toEqual([' line 1', '-line 2', '-line 3'])
+  })
+
+  test('renders created and deleted files against /dev/null', () => {
+    const created = createUnifiedDiff({ path: '/repo/new.ts', before: null, after: 'a\nb\n' }, '/repo')
+    const deleted = createUnifiedDiff({ path: '/repo/old.ts', before: 'a\n', after: null }, '/repo')
+
+    expect(created).toBe('--- /dev/null\n+++ b/new.ts\n@@ -0,0 +1,2 @@\n+a\n+b\n')
+    expect(deleted).toBe('--- a/old.ts\n+++ /dev/null\n@@ -1,1 +0,0 @@\n-a\n')
+  })
+})
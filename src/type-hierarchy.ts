@@ -0,0 +1,307 @@
+/**
+ * Build supertype and subtype trees of classes and interfaces
+ *
+ * @remarks
+ * `typeHierarchy/supertypes` and `subtypes` only return one level, so the tree is
+ * expanded by querying every node. typescript-language-server has no type hierarchy
+ * support, so for servers without a `typeHierarchyProvider` the levels are derived:
+ * supertypes from the `extends` and `implements` clauses resolved with
+ * `textDocument/definition`, subtypes from `textDocument/implementation`. The latter
+ * lists every type below the queried one, so only types naming it in their own
+ * heritage clauses are kept as direct subtypes.
+ *
+ * @internal
+ */
+
+import { relative } from 'node:path'
+import { flattenDocumentSymbols, normalizeDocumentSymbols } from './document-symbols.ts'
+import { getLanguageId } from './language-id.ts'
+import type { LspClient } from './lsp-client.ts'
+import { normalizeLocations } from './lsp-locations.ts'
+import type { DocumentSymbol, Position, Range, TypeHierarchyItem } from './lsp-types.ts'
+import { symbolKindNames } from './symbol-kinds.ts'
+import { positionToOffset, uriToPath } from './workspace-edit.ts'
+
+export type TypeHierarchyDirection = 'supertypes' | 'subtypes'
+
+/**
+ * Node of a type tree
+ *
+ * @remarks
+ * The root has both `supertypes` and `subtypes`. Below it, nodes only continue in
+ * the direction they were reached from. `range` is the type name.
+ */
+export type TypeTreeNode = {
+  name: string
+  kind: string
+  detail?: string
+  file: string
+  range: Range
+  cycle?: true
+  supertypes?: TypeTreeNode[]
+  subtypes?: TypeTreeNode[]
+}
+
+/**
+ * Type hierarchy queries for one client
+ */
+export type TypeHierarchy = {
+  prepare: (uri: string, position: Position) => Promise<TypeHierarchyItem[]>
+  supertypes: (item: TypeHierarchyItem) => Promise<TypeHierarchyItem[]>
+  subtypes: (item: TypeHierarchyItem) => Promise<TypeHierarchyItem[]>
+  /** Close the documents opened while walking the hierarchy */
+  close: () => void
+}
+
+/** `SymbolKind` values of types that take part in a hierarchy: Class and Interface */
+const TYPE_KINDS = new Set([5, 11])
+
+const OPENING_BRACKETS = new Set(['<', '(', '[', '{'])
+const CLOSING_BRACKETS = new Set(['>', ')', ']', '}'])
+
+const itemKey = (item: TypeHierarchyItem): string =>
+  `${item.uri}:${item.selectionRange.start.line}:${item.selectionRange.start.character}`
+
+const contains = (range: Range, { line, character }: Position): boolean =>
+  (line > range.start.line || (line === range.start.line && character >= range.start.character)) &&
+  (line < range.end.line || (line === range.end.line && character <= range.end.character))
+
+const unique = (items: TypeHierarchyItem[]): TypeHierarchyItem[] => {
+  const seen = new Set<string>()
+  return items.filter((item) => {
+    const key = itemKey(item)
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+/**
+ * Find the type names in the `extends` and `implements` clauses of a declaration
+ *
+ * @remarks
+ * Scanning stops at the body's opening brace. Type arguments and parameters are
+ * skipped, so `class A<T extends B> extends C<D>` yields only `C`. For qualified
+ * names such as `ns.Base`, the position of the last identifier is returned.
+ *
+ * @param text - Source text of the file
+ * @param start - Position after the declared name
+ * @returns Positions of the referenced type names
+ */
+export const findHeritageReferences = (text: string, start: Position): Position[] => {
+  const base = positionToOffset(text, start)
+  const offsets: number[] = []
+  let depth = 0
+  let inHeritage = false
+  let pending: number | undefined
+  let afterDot = false
+
+  const flush = () => {
+    if (pending !== undefined) offsets.push(pending)
+    pending = undefined
+  }
+
+  for (const match of text.slice(base).matchAll(/[A-Za-z_$][\w$]*|=>|\S/g)) {
+    const token = match[0]
+    if (token === '{' && depth === 0) break
+    if (OPENING_BRACKETS.has(token)) depth++
+    else if (CLOSING_BRACKETS.has(token)) depth--
+    // Skip type parameters, type arguments and call arguments
+    if (depth > 0 || CLOSING_BRACKETS.has(token)) continue
+
+    if (token === 'extends' || token === 'implements') {
+      flush()
+      inHeritage = true
+    } else if (inHeritage && token === ',') {
+      flush()
+    } else if (inHeritage && token === '.') {
+      afterDot = true
+    } else if (inHeritage && /^[A-Za-z_$]/.test(token)) {
+      if (pending === undefined || afterDot) pending = base + match.index
+      afterDot = false
+    }
+  }
+  flush()
+
+  return offsets.map((offset) => {
+    const before = text.slice(0, offset)
+    return { line: before.split('\n').length - 1, character: offset - (before.lastIndexOf('\n') + 1) }
+  })
+}
+
+/**
+ * Create type hierarchy queries, using the server's type hierarchy when it has one
+ *
+ * @param options - Running client and documents it already has open, by URI
+ * @returns Queries that open other documents as needed until `close` is called
+ */
+export const createTypeHierarchy = ({
+  client,
+  documents = new Map(),
+}: {
+  client: LspClient
+  documents?: Map<string, string>
+}): TypeHierarchy => {
+  const texts = new Map(documents)
+  const opened = new Set<string>()
+  const symbolsByUri = new Map<string, DocumentSymbol[]>()
+  const supertypesByKey = new Map<string, TypeHierarchyItem[]>()
+
+  const open = async (uri: string): Promise<string | undefined> => {
+    if (texts.has(uri)) return texts.get(uri)
+    const path = uriToPath(uri)
+    const file = Bun.file(path)
+    if (!(await file.exists())) return undefined
+    const text = await file.text()
+    client.openDocument(uri, getLanguageId(path), 1, text)
+    texts.set(uri, text)
+    opened.add(uri)
+    return text
+  }
+
+  const close = () => {
+    for (const uri of opened) client.closeDocument(uri)
+    opened.clear()
+  }
+
+  if (client.initializeResult?.capabilities.typeHierarchyProvider) {
+    return {
+      prepare: async (uri, { line, character }) => {
+        await open(uri)
+        return (await client.prepareTypeHierarchy(uri, line, character)) ?? []
+      },
+      supertypes: async (item) => (await client.typeHierarchySupertypes(item)) ?? [],
+      subtypes: async (item) => (await client.typeHierarchySubtypes(item)) ?? [],
+      close,
+    }
+  }
+
+  /** The innermost symbol named at a position, or else the innermost one containing it */
+  const symbolAt = async (uri: string, position: Position): Promise<TypeHierarchyItem | undefined> => {
+    if ((await open(uri)) === undefined) return undefined
+    let symbols = symbolsByUri.get(uri)
+    if (!symbols) {
+      symbols = flattenDocumentSymbols(
+        normalizeDocumentSymbols(await client.documentSymbols(uri), client.getDocumentText(uri)),
+      )
+      symbolsByUri.set(uri, symbols)
+    }
+
+    // Symbols are in document order with children after their parent, so the last match is the innermost
+    const symbol =
+      symbols.findLast((candidate) => contains(candidate.selectionRange, position)) ??
+      symbols.findLast((candidate) => contains(candidate.range, position))
+    if (!symbol) return undefined
+
+    return {
+      name: symbol.name,
+      kind: symbol.kind,
+      ...(symbol.detail ? { detail: symbol.detail } : {}),
+      uri,
+      range: symbol.range,
+      selectionRange: symbol.selectionRange,
+    }
+  }
+
+  const typesDefinedAt = async (uri: string, { line, character }: Position): Promise<TypeHierarchyItem[]> => {
+    const types: TypeHierarchyItem[] = []
+    for (const location of normalizeLocations(await client.definition(uri, line, character))) {
+      const type = await symbolAt(location.uri, location.range.start)
+      if (type && TYPE_KINDS.has(type.kind)) types.push(type)
+    }
+    return unique(types)
+  }
+
+  const supertypes = async (item: TypeHierarchyItem): Promise<TypeHierarchyItem[]> => {
+    const key = itemKey(item)
+    const cached = supertypesByKey.get(key)
+    if (cached) return cached
+
+    const text = await open(item.uri)
+    const types: TypeHierarchyItem[] = []
+    for (const reference of text === undefined ? [] : findHeritageReferences(text, item.selectionRange.end)) {
+      types.push(...(await typesDefinedAt(item.uri, reference)))
+    }
+    const result = unique(types)
+    supertypesByKey.set(key, result)
+    return result
+  }
+
+  return {
+    prepare: async (uri, position) => {
+      if ((await open(uri)) === undefined) return []
+      const types = await typesDefinedAt(uri, position)
+      if (types.length > 0) return types
+      // Positions inside a declaration but not on a name, such as the `class` keyword
+      const type = await symbolAt(uri, position)
+      return type && TYPE_KINDS.has(type.kind) ? [type] : []
+    },
+    supertypes,
+    subtypes: async (item) => {
+      const { line, character } = item.selectionRange.start
+      const key = itemKey(item)
+      const types: TypeHierarchyItem[] = []
+      for (const location of normalizeLocations(await client.implementation(item.uri, line, character))) {
+        const type = await symbolAt(location.uri, location.range.start)
+        if (!type || itemKey(type) === key) continue
+        // Object literals and other values have no heritage clauses of their own
+        if (!TYPE_KINDS.has(type.kind) || (await supertypes(type)).some((parent) => itemKey(parent) === key)) {
+          types.push(type)
+        }
+      }
+      return unique(types)
+    },
+    close,
+  }
+}
+
+/**
+ * Expand a type hierarchy item into trees of its supertypes and subtypes
+ *
+ * @param options - Root item, functions returning one level of supertypes and
+ *   subtypes, and the directory file paths are relative to
+ * @returns Tree rooted at `item`
+ */
+export const buildTypeTree = async ({
+  item,
+  hierarchy,
+  cwd = process.cwd(),
+}: {
+  item: TypeHierarchyItem
+  hierarchy: Pick<TypeHierarchy, TypeHierarchyDirection>
+  cwd?: string
+}): Promise<TypeTreeNode> => {
+  const toNode = (node: TypeHierarchyItem): TypeTreeNode => ({
+    name: node.name,
+    kind: symbolKindNames[node.kind] || `Unknown(${node.kind})`,
+    ...(node.detail ? { detail: node.detail } : {}),
+    file: relative(cwd, uriToPath(node.uri)),
+    range: node.selectionRange,
+  })
+
+  const expand = async (
+    node: TypeTreeNode,
+    current: TypeHierarchyItem,
+    direction: TypeHierarchyDirection,
+    ancestors: Set<string>,
+  ) => {
+    const children: TypeTreeNode[] = []
+    for (const type of await hierarchy[direction](current)) {
+      const child = toNode(type)
+      const key = itemKey(type)
+      if (ancestors.has(key)) {
+        child.cycle = true
+      } else {
+        await expand(child, type, direction, new Set([...ancestors, key]))
+      }
+      children.push(child)
+    }
+    node[direction] = children
+  }
+
+  const root = toNode(item)
+  const ancestors = new Set([itemKey(item)])
+  await expand(root, item, 'supertypes', ancestors)
+  await expand(root, item, 'subtypes', ancestors)
+  return root
+}
@@ -0,0 +1,193 @@
+/**
+ * Find exports that nothing outside their own file uses
+ *
+ * @remarks
+ * Exports come from the TypeScript checker and uses from `textDocument/references`.
+ * References inside import and export declarations only pass a symbol along, so a
+ * symbol that is imported or re-exported by a barrel but never used still counts
+ * as unused. Re-exports are checked where they are declared, not in the barrel.
+ *
+ * @internal
+ */
+
+import { join, relative } from 'node:path'
+import ts from 'typescript'
+import { getLanguageId } from './language-id.ts'
+import type { LspClient } from './lsp-client.ts'
+import { normalizeLocations } from './lsp-locations.ts'
+import type { Position } from './lsp-types.ts'
+import { createExportsProgram, getModuleExports } from './module-exports.ts'
+import { uriToPath } from './workspace-edit.ts'
+
+/**
+ * An export without uses in other files
+ *
+ * @remarks
+ * `usedInFile` means only the `export` keyword is unnecessary. `usedInTests` is set
+ * when test files use the export but tests are not treated as roots.
+ */
+export type UnusedExport = {
+  name: string
+  kind: string
+  file: string
+  line: number
+  character: number
+  usedInFile: boolean
+  usedInTests: boolean
+}
+
+/**
+ * Check whether a path is a test file (`*.test.*`, `*.spec.*` or inside `__tests__`)
+ */
+export const isTestFile = (path: string): boolean =>
+  /\.(test|spec)\.[cm]?[jt]sx?$/.test(path) || /(^|\/)__tests__\//.test(path)
+
+/**
+ * Collect the files named by `main`, `module`, `types`, `exports` and `bin` in package.json
+ *
+ * @param cwd - Directory containing package.json
+ * @returns Absolute paths of the entry files that exist
+ */
+export const getPackageEntryFiles = async (cwd: string): Promise<string[]> => {
+  const file = Bun.file(join(cwd, 'package.json'))
+  if (!(await file.exists())) return []
+  const pkg = (await file.json()) as Record<string, unknown>
+
+  const collect = (value: unknown): string[] => {
+    if (typeof value === 'string') return [value]
+    if (Array.isArray(value)) return value.flatMap(collect)
+    if (value && typeof value === 'object') return Object.values(value).flatMap(collect)
+    return []
+  }
+
+  const entries = [pkg.main, pkg.module, pkg.types, pkg.exports, pkg.bin].flatMap(collect)
+  const files: string[] = []
+  for (const entry of new Set(entries)) {
+    // Subpath patterns such as `./*` name no single file
+    if (entry.includes('*')) continue
+    const path = join(cwd, entry)
+    if (await Bun.file(path).exists()) files.push(path)
+  }
+  return files
+}
+
+/**
+ * Check whether a position is inside an import or export declaration
+ *
+ * @remarks
+ * `export default name` counts as an export declaration; other default export
+ * expressions use the names in them.
+ */
+export const isImportOrExportPosition = (sourceFile: ts.SourceFile, { line, character }: Position): boolean => {
+  const offset = sourceFile.getPositionOfLineAndCharacter(line, character)
+  let node: ts.Node | undefined = sourceFile
+
+  while (node) {
+    if (
+      ts.isImportDeclaration(node) ||
+      ts.isImportEqualsDeclaration(node) ||
+      ts.isExportDeclaration(node) ||
+      (ts.isExportAssignment(node) && ts.isIdentifier(node.expression))
+    ) {
+      return true
+    }
+    node = node.forEachChild((child) =>
+      child.getStart(sourceFile) <= offset && offset < child.getEnd() ? child : undefined,
+    )
+  }
+
+  return false
+}
+
+/**
+ * Find the exports of files that are not used by any other file
+ *
+ * @param options - Running client, absolute paths of the files to check, entry files
+ *   whose exports are public, whether uses in test files count, the directory file
+ *   paths are relative to, and how long to wait for the project to load
+ * @returns Unused exports in file order, and whether the project finished loading
+ *   (references found before that may be missing)
+ */
+export const findUnusedExports = async ({
+  client,
+  files,
+  rootFiles = [],
+  testRoots = false,
+  cwd = process.cwd(),
+  timeout = 30000,
+}: {
+  client: LspClient
+  files: string[]
+  rootFiles?: string[]
+  testRoots?: boolean
+  cwd?: string
+  timeout?: number
+}): Promise<{ complete: boolean; unused: UnusedExport[] }> => {
+  const program = createExportsProgram([...files, ...rootFiles])
+  const keyOf = ({ file, line, character }: { file: string; line: number; character: number }) =>
+    `${file}:${line}:${character}`
+
+  // Anything an entry file exports, directly or through re-exports, is public
+  const roots = new Set(rootFiles.flatMap((file) => getModuleExports({ program, file, cwd }).map(keyOf)))
+
+  const sourceFiles = new Map<string, ts.SourceFile>()
+  const getSourceFile = async (path: string) => {
+    let sourceFile = sourceFiles.get(path)
+    if (!sourceFile) {
+      sourceFile = ts.createSourceFile(path, await Bun.file(path).text(), ts.ScriptTarget.Latest)
+      sourceFiles.set(path, sourceFile)
+    }
+    return sourceFile
+  }
+
+  let complete: boolean | undefined
+  const unused: UnusedExport[] = []
+  for (const path of files) {
+    const file = relative(cwd, path)
+    const uri = `file://${path}`
+    const checked = new Set<string>()
+    client.openDocument(uri, getLanguageId(path), 1, await Bun.file(path).text())
+    // References only cover the files loaded so far until the project is loaded
+    complete ??= await client.waitForReady(uri, { timeout })
+
+    for (const entry of getModuleExports({ program, file: path, cwd })) {
+      const key = keyOf(entry)
+      // Re-exports are checked in the file that declares them
+      if (entry.file !== file || entry.kind === 'Module' || checked.has(key) || roots.has(key)) continue
+      checked.add(key)
+
+      let used = false
+      let usedInFile = false
+      let usedInTests = false
+      const references = normalizeLocations(await client.references(uri, entry.line, entry.character, false))
+      for (const reference of references) {
+        const referencePath = uriToPath(reference.uri)
+        if (isImportOrExportPosition(await getSourceFile(referencePath), reference.range.start)) continue
+        if (referencePath === path) {
+          usedInFile = true
+        } else if (!testRoots && isTestFile(referencePath)) {
+          usedInTests = true
+        } else {
+          used = true
+          break
+        }
+      }
+
+      if (!used) {
+        unused.push({
+          name: entry.name,
+          kind: entry.kind,
+          file,
+          line: entry.line,
+          character: entry.character,
+          usedInFile,
+          usedInTests,
+        })
+      }
+    }
+
+    client.closeDocument(uri)
+  }
+
+  return { complete: complete ?? true, unused }
+}
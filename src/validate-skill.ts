@@ -14,7 +14,7 @@ import { Glob } from 'bun'
 /**
  * Properties extracted from SKILL.md frontmatter.
  */
-type SkillProperties = {
+export type SkillProperties = {
   name: string
   description: string
   license?: string
@@ -26,7 +26,7 @@ type SkillProperties = {
 /**
  * Result of validating a skill directory.
  */
-type ValidationResult = {
+export type ValidationResult = {
   valid: boolean
   path: string
   errors: string[]
@@ -267,7 +267,7 @@ const findSkillMd = async (skillDir: string): Promise<string | null> => {
  * @param skillDir - Path to the skill directory
  * @returns Validation result with errors and warnings
  */
-const validateSkillDirectory = async (skillDir: string): Promise<ValidationResult> => {
+export const validateSkillDirectory = async (skillDir: string): Promise<ValidationResult> => {
   const result: ValidationResult = {
     valid: false,
     path: skillDir,
@@ -405,25 +405,13 @@ const validateSkills = async (rootDir: string): Promise<ValidationResult[]> => {
 }
 
 /**
- * Validate skill directories against AgentSkills specification
+ * Validate skill directories, or directories containing skills
  *
- * @param args - Command line arguments
+ * @param searchPaths - Absolute paths or paths relative to `cwd`
+ * @param cwd - Directory relative paths are resolved against
+ * @returns One result per skill found
  */
-export const validateSkill = async (args: string[]) => {
-  const { values, positionals } = parseArgs({
-    args,
-    options: {
-      json: {
-        type: 'boolean',
-        default: false,
-      },
-    },
-    allowPositionals: true,
-  })
-
-  const cwd = process.cwd()
-  const searchPaths = positionals.length > 0 ? positionals : [join(cwd, '.claude/skills')]
-
+export const validateSkillPaths = async (searchPaths: string[], cwd = process.cwd()): Promise<ValidationResult[]> => {
   const allResults: ValidationResult[] = []
 
   for (const searchPath of searchPaths) {
@@ -447,6 +435,31 @@ export const validateSkill = async (args: string[]) => {
     }
   }
 
+  return allResults
+}
+
+/**
+ * Validate skill directories against AgentSkills specification
+ *
+ * @param args - Command line arguments
+ */
+export const validateSkill = async (args: string[]) => {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      json: {
+        type: 'boolean',
+        default: false,
+      },
+    },
+    allowPositionals: true,
+  })
+
+  const cwd = process.cwd()
+  const searchPaths = positionals.length > 0 ? positionals : [join(cwd, '.claude/skills')]
+
+  const allResults = await validateSkillPaths(searchPaths, cwd)
+
   if (values.json) {
     console.log(JSON.stringify(allResults, null, 2))
   } else {
@@ -0,0 +1,357 @@
+/**
+ * Preview and apply LSP `WorkspaceEdit` results
+ *
+ * @remarks
+ * Edits are planned against file snapshots first, so the same plan can be
+ * rendered as a unified diff or written to disk. Writing verifies that no file
+ * changed since its snapshot was taken.
+ *
+ * @internal
+ */
+
+import { rm } from 'node:fs/promises'
+import { relative } from 'node:path'
+import type { Range, TextEdit, WorkspaceEdit } from './lsp-types.ts'
+
+/**
+ * Planned change to one file
+ *
+ * @remarks
+ * `before` is `null` for created files and `after` is `null` for deleted files.
+ */
+export type FileChange = {
+  path: string
+  before: string | null
+  after: string | null
+}
+
+/** Lines of context around each change in a unified diff */
+const DIFF_CONTEXT = 3
+
+/** Edits past which a diff replaces the changed region as a whole */
+const MAX_DIFF_EDITS = 1000
+
+/**
+ * Convert a `file://` URI to a file system path
+ */
+export const uriToPath = (uri: string): string => decodeURIComponent(uri.replace(/^file:\/\//, ''))
+
+/**
+ * Convert an LSP position (UTF-16 based, like JS strings) to a string offset
+ */
+export const positionToOffset = (text: string, { line, character }: Range['start']): number => {
+  let offset = 0
+  for (let i = 0; i < line; i++) {
+    const next = text.indexOf('\n', offset)
+    if (next === -1) return text.length
+    offset = next + 1
+  }
+  const lineEnd = text.indexOf('\n', offset)
+  return Math.min(offset + character, lineEnd === -1 ? text.length : lineEnd)
+}
+
+/**
+ * Apply text edits to a document
+ *
+ * @remarks
+ * All ranges refer to the original text, as the LSP specification requires.
+ * Edits are applied from the end so earlier offsets stay valid.
+ *
+ * @throws When edits overlap
+ */
+export const applyTextEdits = (text: string, edits: TextEdit[]): string => {
+  const resolved = edits
+    .map((edit, index) => ({
+      start: positionToOffset(text, edit.range.start),
+      end: positionToOffset(text, edit.range.end),
+      newText: edit.newText,
+      index,
+    }))
+    // Stable order for inserts at the same offset
+    .sort((a, b) => a.start - b.start || a.index - b.index)
+
+  for (let i = 1; i < resolved.length; i++) {
+    if (resolved[i]!.start < resolved[i - 1]!.end) {
+      throw new Error('Overlapping text edits')
+    }
+  }
+
+  let result = text
+  for (const edit of resolved.reverse()) {
+    result = result.slice(0, edit.start) + edit.newText + result.slice(edit.end)
+  }
+  return result
+}
+
+/**
+ * Compute the resulting content of every file a workspace edit touches
+ *
+ * @remarks
+ * Files are read from `snapshots` when present (e.g. the text that was sent to the
+ * server with `didOpen`) and from disk otherwise; disk reads are added to `snapshots`.
+ * A `TextDocumentEdit` with a version is rejected unless it matches `versions`.
+ *
+ * @param edit - Workspace edit from the server
+ * @param options - Known file contents and open document versions, keyed by absolute path
+ * @returns One change per touched file, in first-touched order
+ * @throws When an edit targets a missing file or a document version that is not current
+ */
+export const planWorkspaceEdit = async (
+  edit: WorkspaceEdit,
+  {
+    snapshots = new Map(),
+    versions = new Map(),
+  }: { snapshots?: Map<string, string>; versions?: Map<string, number> } = {},
+): Promise<FileChange[]> => {
+  const before = new Map<string, string | null>()
+  const after = new Map<string, string | null>()
+
+  const read = async (path: string): Promise<string | null> => {
+    if (after.has(path)) return after.get(path)!
+    if (!snapshots.has(path)) {
+      const file = Bun.file(path)
+      if (!(await file.exists())) {
+        before.set(path, null)
+        after.set(path, null)
+        return null
+      }
+      snapshots.set(path, await file.text())
+    }
+    const text = snapshots.get(path)!
+    before.set(path, text)
+    after.set(path, text)
+    return text
+  }
+
+  const editText = async (uri: string, edits: TextEdit[]) => {
+    const path = uriToPath(uri)
+    const text = await read(path)
+    if (text === null) {
+      throw new Error(`Cannot edit missing file: ${path}`)
+    }
+    after.set(path, applyTextEdits(text, edits))
+  }
+
+  if (edit.documentChanges) {
+    for (const change of edit.documentChanges) {
+      if (!('kind' in change)) {
+        const path = uriToPath(change.textDocument.uri)
+        const expected = change.textDocument.version
+        const current = versions.get(path)
+        if (typeof expected === 'number' && current !== undefined && expected !== current) {
+          throw new Error(`Stale edit for ${path}: expected version ${expected}, document is at ${current}`)
+        }
+        await editText(change.textDocument.uri, change.edits)
+        continue
+      }
+
+      switch (change.kind) {
+        case 'create': {
+          const path = uriToPath(change.uri)
+          const existing = await read(path)
+          if (existing !== null && change.options?.ignoreIfExists) break
+          if (existing !== null && !change.options?.overwrite) {
+            throw new Error(`Cannot create existing file: ${path}`)
+          }
+          after.set(path, '')
+          break
+        }
+        case 'rename': {
+          const oldPath = uriToPath(change.oldUri)
+          const newPath = uriToPath(change.newUri)
+          const text = await read(oldPath)
+          if (text === null) throw new Error(`Cannot rename missing file: ${oldPath}`)
+          const existing = await read(newPath)
+          if (existing !== null && change.options?.ignoreIfExists) break
+          if (existing !== null && !change.options?.overwrite) {
+            throw new Error(`Cannot rename onto existing file: ${newPath}`)
+          }
+          after.set(newPath, text)
+          after.set(oldPath, null)
+          break
+        }
+        case 'delete': {
+          const path = uriToPath(change.uri)
+          const text = await read(path)
+          if (text === null && !change.options?.ignoreIfNotExists) {
+            throw new Error(`Cannot delete missing file: ${path}`)
+          }
+          after.set(path, null)
+          break
+        }
+      }
+    }
+  } else if (edit.changes) {
+    for (const [uri, edits] of Object.entries(edit.changes)) {
+      await editText(uri, edits)
+    }
+  }
+
+  return [...after.entries()]
+    .map(([path, text]) => ({ path, before: before.get(path) ?? null, after: text }))
+    .filter((change) => change.before !== change.after)
+}
+
+/**
+ * Write planned changes to disk
+ *
+ * @remarks
+ * Every file is checked against its planned `before` content first, and nothing is
+ * written if any of them changed on disk since it was read.
+ *
+ * @throws When a file changed since it was read
+ */
+export const applyFileChanges = async (changes: FileChange[]): Promise<void> => {
+  for (const change of changes) {
+    const file = Bun.file(change.path)
+    const current = (await file.exists()) ? await file.text() : null
+    if (current !== change.before) {
+      throw new Error(`Stale edit: ${change.path} changed since it was read`)
+    }
+  }
+
+  for (const change of changes) {
+    if (change.after === null) {
+      await rm(change.path, { force: true })
+    } else {
+      await Bun.write(change.path, change.after)
+    }
+  }
+}
+
+type DiffOp = { type: ' ' | '-' | '+'; line: string }
+
+/**
+ * Line diff using Myers' O(ND) algorithm
+ *
+ * @remarks
+ * The common prefix and suffix are stripped first, and each step saves only the
+ * diagonals it reads, so memory grows with the square of the edit count.
+ * Past {@link MAX_DIFF_EDITS} edits the changed region is removed and added whole.
+ */
+const diffLines = (allA: string[], allB: string[]): DiffOp[] => {
+  let prefix = 0
+  while (prefix < allA.length && prefix < allB.length && allA[prefix] === allB[prefix]) prefix++
+  let suffix = 0
+  while (
+    suffix < allA.length - prefix &&
+    suffix < allB.length - prefix &&
+    allA[allA.length - 1 - suffix] === allB[allB.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+
+  const a = allA.slice(prefix, allA.length - suffix)
+  const b = allB.slice(prefix, allB.length - suffix)
+  const head = allA.slice(0, prefix).map((line): DiffOp => ({ type: ' ', line }))
+  const tail = allA.slice(allA.length - suffix).map((line): DiffOp => ({ type: ' ', line }))
+
+  const replaceAll = () => [
+    ...head,
+    ...a.map((line): DiffOp => ({ type: '-', line })),
+    ...b.map((line): DiffOp => ({ type: '+', line })),
+    ...tail,
+  ]
+  if (a.length === 0 || b.length === 0) return replaceAll()
+
+  const n = a.length
+  const m = b.length
+  const max = n + m
+  const offset = max + 1
+  const v = new Array<number>(2 * max + 2).fill(0)
+  const trace: number[][] = []
+
+  search: for (let d = 0; d <= max; d++) {
+    if (d > MAX_DIFF_EDITS) return replaceAll()
+    // Step d reads the diagonals next to -d..d, which the previous steps reached
+    trace.push(v.slice(offset - d - 1, offset + d + 2))
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[k - 1 + offset]! < v[k + 1 + offset]!) ? v[k + 1 + offset]! : v[k - 1 + offset]! + 1
+      let y = x - k
+      while (x < n && y < m && a[x] === b[y]) {
+        x++
+        y++
+      }
+      v[k + offset] = x
+      if (x >= n && y >= m) break search
+    }
+  }
+
+  const ops: DiffOp[] = []
+  let x = n
+  let y = m
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const state = trace[d]!
+    const k = x - y
+    const prevK = k === -d || (k !== d && state[k + d]! < state[k + d + 2]!) ? k + 1 : k - 1
+    const prevX = state[prevK + d + 1]!
+    const prevY = prevX - prevK
+    while (x > prevX && y > prevY) {
+      ops.push({ type: ' ', line: a[--x]! })
+      y--
+    }
+    if (d > 0) {
+      if (x === prevX) ops.push({ type: '+', line: b[--y]! })
+      else ops.push({ type: '-', line: a[--x]! })
+    }
+  }
+
+  return [...head, ...ops.reverse(), ...tail]
+}
+
+const splitLines = (text: string | null): string[] => {
+  if (!text) return []
+  const lines = text.split('\n')
+  if (lines[lines.length - 1] === '') lines.pop()
+  return lines
+}
+
+/**
+ * Render a planned file change as a unified diff
+ *
+ * @param change - Planned change
+ * @param cwd - Paths in the diff header are relative to this directory
+ * @returns Unified diff, empty if the content is unchanged
+ */
+export const createUnifiedDiff = (change: FileChange, cwd = process.cwd()): string => {
+  if (change.before === change.after) return ''
+
+  const path = relative(cwd, change.path)
+  const ops = diffLines(splitLines(change.before), splitLines(change.after))
+  const output = [
+    `--- ${change.before === null ? '/dev/null' : `a/${path}`}`,
+    `+++ ${change.after === null ? '/dev/null' : `b/${path}`}`,
+  ]
+
+  let index = 0
+  while (index < ops.length) {
+    // Find the next change and the run of changes whose context overlaps
+    const first = ops.findIndex((op, i) => i >= index && op.type !== ' ')
+    if (first === -1) break
+    let last = first
+    for (let i = first + 1; i < ops.length && i <= last + DIFF_CONTEXT * 2 + 1; i++) {
+      if (ops[i]!.type !== ' ') last = i
+    }
+
+    const start = Math.max(index, first - DIFF_CONTEXT)
+    const end = Math.min(ops.length, last + DIFF_CONTEXT + 1)
+    const hunk = ops.slice(start, end)
+
+    const oldStart = ops.slice(0, start).filter((op) => op.type !== '+').length
+    const newStart = ops.slice(0, start).filter((op) => op.type !== '-').length
+    const oldCount = hunk.filter((op) => op.type !== '+').length
+    const newCount = hunk.filter((op) => op.type !== '-').length
+
+    output.push(
+      `@@ -${oldCount === 0 ? oldStart : oldStart + 1},${oldCount} +${newCount === 0 ? newStart : newStart + 1},${newCount} @@`,
+    )
+    for (const op of hunk) {
+      output.push(`${op.type}${op.line}`)
+    }
+
+    index = end
+  }
+
+  return `${output.join('\n')}\n`
+}